@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Target } from "lucide-react";
+
+interface CalibrationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 0-1 while recording, null before it starts
+  progress: number | null;
+  durationMs: number;
+  onStart: () => void;
+  onSkip: () => void;
+}
+
+// Neutral, evenly paced text; long enough to fill the recording at a normal speaking rate
+const CALIBRATION_TEXT =
+  "The weather today is mild. I walked to the station, bought a ticket and waited for the train. " +
+  "It arrived on time, and the trip took about twenty minutes. Later I will read for a while and cook dinner.";
+
+export const CalibrationDialog = ({ open, onOpenChange, progress, durationMs, onStart, onSkip }: CalibrationDialogProps) => {
+  const isRecording = progress !== null;
+  const secondsLeft = isRecording ? Math.ceil(((1 - progress) * durationMs) / 1000) : Math.round(durationMs / 1000);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRecording && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md bg-background border-border">
+        <DialogHeader className="text-center sm:text-center">
+          <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+            <Target className="w-8 h-8 text-foreground" />
+          </div>
+          <DialogTitle className="text-2xl font-bold">Calibrate to you</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Everyone's resting face and voice are different. Take {Math.round(durationMs / 1000)} seconds so
+            emotions are read relative to your own neutral.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-muted-foreground">
+            Look at the camera with a relaxed face and read this aloud in your normal voice:
+          </p>
+          <blockquote className="p-3 rounded-lg bg-muted/50 text-sm leading-relaxed">{CALIBRATION_TEXT}</blockquote>
+
+          {isRecording && (
+            <div className="space-y-1">
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div className="h-full bg-foreground transition-[width]" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <p className="text-xs text-center text-muted-foreground">{secondsLeft}s left</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onSkip} className="flex-1 border-border hover:bg-muted">
+            {isRecording ? "Cancel" : "Skip"}
+          </Button>
+          <Button
+            onClick={onStart}
+            disabled={isRecording}
+            className="flex-1 bg-foreground text-background hover:bg-foreground/90"
+          >
+            {isRecording ? `Recording… ${secondsLeft}s` : "Start"}
+          </Button>
+        </div>
+
+        <p className="text-xs text-center text-muted-foreground mt-2">
+          Only summary statistics are saved to your account, never the audio or video
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+};
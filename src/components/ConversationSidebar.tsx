@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { MessageSquare, Plus, Trash2, Loader2 } from "lucide-react";
+import { Conversation, getConversationRepository } from "@/services/ConversationRepository";
+
+interface ConversationSidebarProps {
+  activeConversationId: string | null;
+  onResume: (conversationId: string) => void;
+  onNewConversation: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+export const ConversationSidebar = ({
+  activeConversationId,
+  onResume,
+  onNewConversation,
+}: ConversationSidebarProps) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Reload when a new conversation gets created or one is deleted
+  useEffect(() => {
+    let cancelled = false;
+
+    getConversationRepository()
+      .listConversations()
+      .then((list) => {
+        if (cancelled) return;
+        setConversations(list);
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeConversationId, reloadKey]);
+
+  const handleDelete = async (conversationId: string) => {
+    try {
+      await getConversationRepository().deleteConversation(conversationId);
+      if (conversationId === activeConversationId) {
+        onNewConversation();
+      }
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete conversation");
+    }
+  };
+
+  return (
+    <div className="flex flex-col bg-muted/20 rounded-lg border border-border overflow-hidden">
+      <div className="p-3 flex items-center justify-between border-b border-border">
+        <p className="text-sm font-medium">History</p>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onNewConversation}
+          className="h-7 px-2 text-muted-foreground hover:text-foreground"
+          title="New conversation"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 max-h-64 lg:max-h-none">
+        <div className="p-2 space-y-1">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-xs text-red-400 p-2">{error}</p>
+          ) : conversations.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-2">No saved conversations yet.</p>
+          ) : (
+            conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-2 rounded-md px-2 py-2 text-left cursor-pointer transition-colors ${
+                  conversation.id === activeConversationId ? "bg-muted" : "hover:bg-muted/50"
+                }`}
+                onClick={() => onResume(conversation.id)}
+              >
+                <MessageSquare className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs truncate">{conversation.title || "Untitled conversation"}</p>
+                  <p className="text-[10px] text-muted-foreground">{formatDate(conversation.updated_at)}</p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(conversation.id);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-400 transition-opacity"
+                  title="Delete conversation"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import type { Message } from "@/hooks/useMultimodalAI";
+import type { TimelineEntry } from "@/lib/emotion/timeline";
+import { EMOTION_LABELS } from "@/lib/emotion/taxonomy";
+import type { Emotion } from "@/services/FaceEmotionService";
+import type { VoiceMetrics } from "@/services/VoiceAnalysisService";
+
+interface EmotionTimelineChartProps {
+  getTimeline: (from?: number, to?: number) => TimelineEntry[];
+  messages: Message[];
+  windowMs?: number;
+  refreshMs?: number;
+}
+
+const WIDTH = 300;
+const FACIAL_HEIGHT = 80;
+const VOICE_HEIGHT = 48;
+// Gap after which a series is broken instead of drawn across (e.g. silence)
+const GAP_MS = 1500;
+
+const EMOTION_STYLES: Record<Emotion, { stroke: string; dot: string }> = {
+  happy: { stroke: "stroke-green-400", dot: "bg-green-400" },
+  sad: { stroke: "stroke-blue-400", dot: "bg-blue-400" },
+  angry: { stroke: "stroke-red-400", dot: "bg-red-400" },
+  fearful: { stroke: "stroke-yellow-400", dot: "bg-yellow-400" },
+  neutral: { stroke: "stroke-gray-400", dot: "bg-gray-400" },
+  surprised: { stroke: "stroke-purple-400", dot: "bg-purple-400" },
+  disgusted: { stroke: "stroke-orange-400", dot: "bg-orange-400" },
+};
+
+const VOICE_SERIES: { key: keyof VoiceMetrics; label: string; max: number; stroke: string; dot: string }[] = [
+  { key: "pitch", label: "Pitch", max: 500, stroke: "stroke-pink-400", dot: "bg-pink-400" },
+  { key: "volume", label: "Volume", max: 1, stroke: "stroke-cyan-400", dot: "bg-cyan-400" },
+  { key: "energy", label: "Energy", max: 1, stroke: "stroke-lime-400", dot: "bg-lime-400" },
+];
+
+// Builds an SVG path from [time, value] samples, lifting the pen across gaps
+function toPath(samples: [number, number][], x: (t: number) => number, y: (v: number) => number): string {
+  let path = "";
+  let previous = -Infinity;
+  for (const [t, v] of samples) {
+    path += `${t - previous > GAP_MS ? "M" : "L"}${x(t).toFixed(1)},${y(v).toFixed(1)} `;
+    previous = t;
+  }
+  return path.trim();
+}
+
+export const EmotionTimelineChart = ({
+  getTimeline,
+  messages,
+  windowMs = 2 * 60 * 1000,
+  refreshMs = 1000,
+}: EmotionTimelineChartProps) => {
+  const [snapshot, setSnapshot] = useState<{ now: number; entries: TimelineEntry[] }>({
+    now: 0,
+    entries: [],
+  });
+
+  // The timeline is mutated outside React state, so poll it rather than re-render per reading
+  useEffect(() => {
+    const tick = () => {
+      const now = Date.now();
+      setSnapshot({ now, entries: getTimeline(now - windowMs, now) });
+    };
+    const timeout = window.setTimeout(tick, 0);
+    const interval = window.setInterval(tick, refreshMs);
+    return () => {
+      window.clearTimeout(timeout);
+      window.clearInterval(interval);
+    };
+  }, [getTimeline, windowMs, refreshMs]);
+
+  const { now, entries } = snapshot;
+  const start = now - windowMs;
+  const x = (t: number) => ((t - start) / windowMs) * WIDTH;
+
+  const facial = entries.flatMap((entry) => (entry.kind === "facial" ? [entry.reading] : []));
+  const voice = entries.flatMap((entry) => (entry.kind === "voice" ? [entry.reading] : []));
+
+  const facialY = (v: number) => FACIAL_HEIGHT - v * FACIAL_HEIGHT;
+  const voiceY = (v: number) => VOICE_HEIGHT - Math.min(1, v) * VOICE_HEIGHT;
+
+  const visibleMessages = messages.filter((message) => message.timestamp >= start && message.timestamp <= now);
+
+  const renderBoundaries = (height: number) =>
+    visibleMessages.map((message) => {
+      const from = message.emotionContext?.summary?.from;
+      return (
+        <g key={message.id}>
+          <title>{message.content.slice(0, 80)}</title>
+          {message.role === "user" && from !== undefined && (
+            <rect
+              x={x(Math.max(from, start))}
+              y={0}
+              width={Math.max(0, x(message.timestamp) - x(Math.max(from, start)))}
+              height={height}
+              className="fill-foreground/10"
+            />
+          )}
+          <line
+            x1={x(message.timestamp)}
+            x2={x(message.timestamp)}
+            y1={0}
+            y2={height}
+            strokeDasharray={message.role === "assistant" ? "2 2" : undefined}
+            className="stroke-foreground/40"
+          />
+        </g>
+      );
+    });
+
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg border border-border space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium">Emotion timeline</p>
+        <p className="text-xs text-muted-foreground">Last {Math.round(windowMs / 60000)} min</p>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-6 text-center">Waiting for readings...</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${FACIAL_HEIGHT}`} className="w-full h-20" preserveAspectRatio="none">
+            {renderBoundaries(FACIAL_HEIGHT)}
+            {EMOTION_LABELS.map((emotion) => (
+              <path
+                key={emotion}
+                d={toPath(
+                  facial.map((r) => [r.timestamp, r.all[emotion]]),
+                  x,
+                  facialY
+                )}
+                fill="none"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+                className={EMOTION_STYLES[emotion].stroke}
+              />
+            ))}
+          </svg>
+
+          <svg viewBox={`0 0 ${WIDTH} ${VOICE_HEIGHT}`} className="w-full h-12" preserveAspectRatio="none">
+            {renderBoundaries(VOICE_HEIGHT)}
+            {VOICE_SERIES.map((series) => (
+              <path
+                key={series.key}
+                d={toPath(
+                  voice.map((r) => [r.timestamp, r.metrics[series.key] / series.max]),
+                  x,
+                  voiceY
+                )}
+                fill="none"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+                className={series.stroke}
+              />
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {EMOTION_LABELS.map((emotion) => (
+              <span key={emotion} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                <span className={`w-2 h-2 rounded-full ${EMOTION_STYLES[emotion].dot}`} />
+                {emotion}
+              </span>
+            ))}
+            {VOICE_SERIES.map((series) => (
+              <span key={series.key} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                <span className={`w-2 h-2 rounded-full ${series.dot}`} />
+                {series.label}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
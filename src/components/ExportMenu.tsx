@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuItem } from "@/components/ui/dropdown-menu";
+import { Download, FileJson, FileText, Sheet } from "lucide-react";
+import type { Message } from "@/hooks/useMultimodalAI";
+import { ExportFormat, downloadConversation } from "@/lib/export/conversationExport";
+
+interface ExportMenuProps {
+  messages: Message[];
+  conversationId?: string | null;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; icon: typeof FileJson }[] = [
+  { format: "json", label: "JSON (full data)", icon: FileJson },
+  { format: "markdown", label: "Markdown transcript", icon: FileText },
+  { format: "csv", label: "CSV emotion readings", icon: Sheet },
+];
+
+export const ExportMenu = ({ messages, conversationId }: ExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadConversation(messages, format, { conversationId });
+    setOpen(false);
+  };
+
+  return (
+    <DropdownMenu
+      open={open}
+      onOpenChange={setOpen}
+      className="w-52"
+      trigger={
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={messages.length === 0}
+          className="h-7 px-2 text-muted-foreground hover:text-foreground"
+          title="Export conversation"
+        >
+          <Download className="w-4 h-4" />
+        </Button>
+      }
+    >
+      {OPTIONS.map(({ format, label, icon: Icon }) => (
+        <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+          <Icon className="w-4 h-4 text-muted-foreground" />
+          {label}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,135 @@
+import { useEffect, useRef, type RefObject } from "react";
+import type { TrackedFace } from "@/lib/face/tracker";
+import { EMOTION_LABELS } from "@/lib/emotion/taxonomy";
+import type { Emotion } from "@/services/FaceEmotionService";
+
+interface FaceOverlayProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  faces: TrackedFace[];
+  // Match the video's scale-x-[-1] so boxes line up with the preview
+  mirrored?: boolean;
+  showLandmarks?: boolean;
+}
+
+// Tailwind 400 shades, matching the timeline chart
+const EMOTION_COLORS: Record<Emotion, string> = {
+  happy: "#4ade80",
+  sad: "#60a5fa",
+  angry: "#f87171",
+  fearful: "#facc15",
+  neutral: "#9ca3af",
+  surprised: "#c084fc",
+  disgusted: "#fb923c",
+};
+
+const BAR_WIDTH = 72;
+const BAR_HEIGHT = 6;
+const ROW_HEIGHT = 12;
+const LABEL_WIDTH = 56;
+const PADDING = 8;
+
+// Where the video frame lands in the element under object-cover: scaled to fill, centered and cropped
+function coverTransform(video: HTMLVideoElement, width: number, height: number) {
+  const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+  const frameWidth = video.videoWidth * scale;
+  const frameHeight = video.videoHeight * scale;
+  return {
+    x: (nx: number) => (width - frameWidth) / 2 + nx * frameWidth,
+    y: (ny: number) => (height - frameHeight) / 2 + ny * frameHeight,
+    scaleX: frameWidth,
+    scaleY: frameHeight,
+  };
+}
+
+function drawBars(ctx: CanvasRenderingContext2D, scores: Record<Emotion, number>, width: number, height: number) {
+  const panelWidth = LABEL_WIDTH + BAR_WIDTH + PADDING * 2;
+  const panelHeight = EMOTION_LABELS.length * ROW_HEIGHT + PADDING * 2;
+  // Bottom right, clear of the emotion badge and the listening pill
+  const left = width - panelWidth - PADDING;
+  const top = height - panelHeight - PADDING;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(left, top, panelWidth, panelHeight);
+  ctx.font = "10px sans-serif";
+  ctx.textBaseline = "middle";
+
+  EMOTION_LABELS.forEach((emotion, i) => {
+    const rowY = top + PADDING + i * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const barX = left + PADDING + LABEL_WIDTH;
+
+    ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+    ctx.fillText(emotion, left + PADDING, rowY);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.15)";
+    ctx.fillRect(barX, rowY - BAR_HEIGHT / 2, BAR_WIDTH, BAR_HEIGHT);
+    ctx.fillStyle = EMOTION_COLORS[emotion];
+    ctx.fillRect(barX, rowY - BAR_HEIGHT / 2, BAR_WIDTH * Math.min(1, Math.max(0, scores[emotion])), BAR_HEIGHT);
+  });
+}
+
+export const FaceOverlay = ({ videoRef, faces, mirrored = true, showLandmarks = true }: FaceOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // Drawn unmirrored with flipped x coordinates, so the labels stay readable
+    const draw = () => {
+      const ctx = canvas.getContext("2d");
+      const video = videoRef.current;
+      if (!ctx) return;
+
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      const ratio = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+      }
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      if (!video || video.videoWidth === 0 || video.videoHeight === 0) return;
+
+      const frame = coverTransform(video, width, height);
+      const flip = (nx: number) => (mirrored ? 1 - nx : nx);
+
+      for (const face of faces) {
+        const { box } = face;
+        const left = frame.x(mirrored ? 1 - box.x - box.width : box.x);
+        const color = face.isPrimary ? EMOTION_COLORS[face.result.dominant] : "rgba(255, 255, 255, 0.5)";
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = face.isPrimary ? 2 : 1;
+        ctx.strokeRect(left, frame.y(box.y), box.width * frame.scaleX, box.height * frame.scaleY);
+
+        ctx.fillStyle = color;
+        ctx.font = "11px sans-serif";
+        ctx.textBaseline = "bottom";
+        ctx.fillText(
+          `#${face.id} ${face.result.dominant} ${Math.round(face.result.confidence * 100)}%`,
+          left,
+          frame.y(box.y) - 2
+        );
+
+        if (showLandmarks && face.landmarks) {
+          ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+          for (const point of face.landmarks) {
+            ctx.fillRect(frame.x(flip(point.x)) - 1, frame.y(point.y) - 1, 2, 2);
+          }
+        }
+      }
+
+      const primary = faces.find((face) => face.isPrimary);
+      if (primary) drawBars(ctx, primary.result.all, width, height);
+    };
+
+    draw();
+
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [faces, videoRef, mirrored, showLandmarks]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
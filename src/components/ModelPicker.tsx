@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Check, ChevronDown, Eye, Zap } from "lucide-react";
+import { DropdownMenu, DropdownMenuItem, DropdownMenuLabel } from "@/components/ui/dropdown-menu";
+import { AI_PROVIDERS, resolveModel, type ModelSelection } from "@/lib/chat/providers";
+
+interface ModelPickerProps {
+  value: ModelSelection;
+  onChange: (selection: ModelSelection) => void;
+  disabled?: boolean;
+}
+
+export const ModelPicker = ({ value, onChange, disabled }: ModelPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (selection: ModelSelection) => {
+    onChange(selection);
+    setOpen(false);
+  };
+
+  const current = resolveModel(value.provider, value.model);
+
+  return (
+    <DropdownMenu
+      open={open}
+      onOpenChange={setOpen}
+      className="w-60"
+      trigger={
+        <button
+          disabled={disabled}
+          className="px-3 py-1 bg-muted rounded-full text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors disabled:opacity-50"
+          title="Choose the AI model"
+        >
+          {current.name}
+          <ChevronDown className="w-3 h-3" />
+        </button>
+      }
+    >
+      {AI_PROVIDERS.map((provider) => (
+        <div key={provider.id} className="py-1">
+          <DropdownMenuLabel>{provider.name}</DropdownMenuLabel>
+          {provider.models.map((model) => {
+            const selected = value.provider === provider.id && current.id === model.id;
+            return (
+              <DropdownMenuItem
+                key={model.id}
+                onClick={() => handleSelect({ provider: provider.id, model: model.id })}
+              >
+                <Check className={`w-3 h-3 ${selected ? "opacity-100" : "opacity-0"}`} />
+                <span className="flex-1">{model.name}</span>
+                {model.capabilities.streaming && (
+                  <span title="Streams replies">
+                    <Zap className="w-3 h-3 text-muted-foreground" />
+                  </span>
+                )}
+                {model.capabilities.vision && (
+                  <span title="Accepts images">
+                    <Eye className="w-3 h-3 text-muted-foreground" />
+                  </span>
+                )}
+              </DropdownMenuItem>
+            );
+          })}
+        </div>
+      ))}
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Loader2, Trash2 } from "lucide-react";
+import { TONE_LABELS, type Persona, type PersonaTone } from "@/lib/chat/personas";
+import type { PersonaInput } from "@/services/PersonaRepository";
+import type { Emotion } from "@/services/FaceEmotionService";
+
+interface PersonaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Persona being edited, or null to create one. Remount (via `key`) when it changes
+  persona: Persona | null;
+  onSave: (input: PersonaInput) => Promise<void>;
+  onDelete?: () => Promise<void>;
+}
+
+// Emotions users most often want a specific reaction to
+const RULE_EMOTIONS: { emotion: Emotion; label: string }[] = [
+  { emotion: "sad", label: "When sad" },
+  { emotion: "angry", label: "When angry" },
+  { emotion: "fearful", label: "When anxious" },
+  { emotion: "happy", label: "When happy" },
+];
+
+const FIELD_CLASS =
+  "w-full rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+export const PersonaDialog = ({ open, onOpenChange, persona, onSave, onDelete }: PersonaDialogProps) => {
+  const [draft, setDraft] = useState<PersonaInput>(() => ({
+    name: persona?.name ?? "",
+    description: persona?.description ?? "",
+    systemPrompt: persona?.systemPrompt ?? "",
+    tone: persona?.tone ?? "warm",
+    language: persona?.language ?? null,
+    emotionRules: persona?.emotionRules ?? {},
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (patch: Partial<PersonaInput>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const canSave = draft.name.trim() !== "" && draft.systemPrompt.trim() !== "" && !isSaving;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open so nothing typed is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(() =>
+      onSave({
+        ...draft,
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        systemPrompt: draft.systemPrompt.trim(),
+        language: draft.language?.trim() || null,
+      })
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-background border-border max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{persona ? "Edit persona" : "New persona"}</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Personas set how the assistant talks and reacts to your emotions. They're saved to your account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <Input placeholder="Name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+          <Input
+            placeholder="Short description (optional)"
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+          />
+          <textarea
+            placeholder="Instructions, e.g. You are a patient language tutor…"
+            value={draft.systemPrompt}
+            onChange={(e) => update({ systemPrompt: e.target.value })}
+            rows={4}
+            className={FIELD_CLASS}
+          />
+
+          <div className="flex gap-2">
+            <select
+              value={draft.tone}
+              onChange={(e) => update({ tone: e.target.value as PersonaTone })}
+              className={FIELD_CLASS}
+            >
+              {(Object.keys(TONE_LABELS) as PersonaTone[]).map((tone) => (
+                <option key={tone} value={tone}>
+                  {TONE_LABELS[tone]} tone
+                </option>
+              ))}
+            </select>
+            <Input
+              placeholder="Language, e.g. en-US"
+              value={draft.language ?? ""}
+              onChange={(e) => update({ language: e.target.value })}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground pt-1">How to respond (optional)</p>
+          {RULE_EMOTIONS.map(({ emotion, label }) => (
+            <Input
+              key={emotion}
+              placeholder={label}
+              value={draft.emotionRules[emotion] ?? ""}
+              onChange={(e) => update({ emotionRules: { ...draft.emotionRules, [emotion]: e.target.value } })}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          {persona && onDelete && (
+            <Button
+              variant="outline"
+              onClick={() => run(onDelete)}
+              disabled={isSaving}
+              className="border-border text-red-400 hover:bg-muted"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 bg-foreground text-background hover:bg-foreground/90"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
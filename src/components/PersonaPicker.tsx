@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Check, ChevronDown, Pencil, Plus } from "lucide-react";
+import { DropdownMenu, DropdownMenuItem, DropdownMenuLabel } from "@/components/ui/dropdown-menu";
+import { PERSONA_PRESETS, type Persona } from "@/lib/chat/personas";
+
+interface PersonaPickerProps {
+  value: Persona;
+  personas: Persona[];
+  onChange: (persona: Persona) => void;
+  onCreate: () => void;
+  onEdit: (persona: Persona) => void;
+  disabled?: boolean;
+}
+
+export const PersonaPicker = ({ value, personas, onChange, onCreate, onEdit, disabled }: PersonaPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const handle = (action: () => void) => () => {
+    action();
+    setOpen(false);
+  };
+
+  const renderItem = (persona: Persona) => (
+    <div key={persona.id} className="flex items-center">
+      <DropdownMenuItem
+        onClick={handle(() => onChange(persona))}
+        className="flex-1 items-start"
+        title={persona.description}
+      >
+        <Check className={`w-3 h-3 mt-0.5 shrink-0 ${persona.id === value.id ? "opacity-100" : "opacity-0"}`} />
+        <span>
+          <span className="block">{persona.name}</span>
+          {persona.description && (
+            <span className="block text-[10px] text-muted-foreground">{persona.description}</span>
+          )}
+        </span>
+      </DropdownMenuItem>
+      {!persona.isPreset && (
+        <DropdownMenuItem
+          onClick={handle(() => onEdit(persona))}
+          className="w-auto p-1.5 text-muted-foreground hover:text-foreground"
+          title="Edit persona"
+          aria-label={`Edit ${persona.name}`}
+        >
+          <Pencil className="w-3 h-3" />
+        </DropdownMenuItem>
+      )}
+    </div>
+  );
+
+  return (
+    <DropdownMenu
+      open={open}
+      onOpenChange={setOpen}
+      className="w-64"
+      trigger={
+        <button
+          disabled={disabled}
+          className="px-3 py-1 bg-muted rounded-full text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors disabled:opacity-50"
+          title="Choose the assistant's persona"
+        >
+          {value.name}
+          <ChevronDown className="w-3 h-3" />
+        </button>
+      }
+    >
+      <DropdownMenuLabel>Presets</DropdownMenuLabel>
+      {PERSONA_PRESETS.map(renderItem)}
+
+      {personas.length > 0 && (
+        <>
+          <DropdownMenuLabel className="mt-1">Yours</DropdownMenuLabel>
+          {personas.map(renderItem)}
+        </>
+      )}
+
+      <DropdownMenuItem onClick={handle(onCreate)} className="mt-1 border-t border-border">
+        <Plus className="w-3 h-3" />
+        New persona…
+      </DropdownMenuItem>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,138 @@
+import * as React from "react";
+import { Slot } from "@radix-ui/react-slot";
+
+import { cn } from "@/lib/utils";
+
+// Lightweight menu for the header pickers: closes on outside click and Escape, and moves focus
+// between items with the arrow keys. Controlled, like Dialog: callers close it after a selection.
+
+interface DropdownMenuProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Single element, toggles the menu; gets the aria attributes and click handler merged in
+  trigger: React.ReactElement;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const ITEM_SELECTOR = '[role="menuitem"]:not(:disabled)';
+
+const DropdownMenu = ({ open, onOpenChange, trigger, className, children }: DropdownMenuProps) => {
+  const rootRef = React.useRef<HTMLDivElement>(null);
+  const contentRef = React.useRef<HTMLDivElement>(null);
+  const triggerRef = React.useRef<HTMLElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  React.useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) {
+        onOpenChange(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open, onOpenChange]);
+
+  // Start keyboard navigation from the first item
+  React.useEffect(() => {
+    if (open) {
+      contentRef.current?.querySelector<HTMLElement>(ITEM_SELECTOR)?.focus();
+    }
+  }, [open]);
+
+  const close = () => {
+    onOpenChange(false);
+    triggerRef.current?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+      return;
+    }
+
+    const items = Array.from(contentRef.current?.querySelectorAll<HTMLElement>(ITEM_SELECTOR) ?? []);
+    if (items.length === 0) return;
+    const index = items.indexOf(document.activeElement as HTMLElement);
+
+    const target =
+      event.key === "ArrowDown"
+        ? items[(index + 1) % items.length]
+        : event.key === "ArrowUp"
+          ? items[(index - 1 + items.length) % items.length]
+          : event.key === "Home"
+            ? items[0]
+            : event.key === "End"
+              ? items[items.length - 1]
+              : null;
+    if (target) {
+      event.preventDefault();
+      target.focus();
+    }
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <Slot
+        ref={triggerRef}
+        onClick={() => onOpenChange(!open)}
+        onKeyDown={(event: React.KeyboardEvent) => {
+          if (!open && event.key === "ArrowDown") {
+            event.preventDefault();
+            onOpenChange(true);
+          }
+        }}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        {trigger}
+      </Slot>
+
+      {open && (
+        <div
+          ref={contentRef}
+          role="menu"
+          onKeyDown={handleKeyDown}
+          // Tabbing out of the menu closes it, as clicking outside does
+          onBlur={(event) => {
+            if (!rootRef.current?.contains(event.relatedTarget as Node | null)) {
+              onOpenChange(false);
+            }
+          }}
+          className={cn(
+            "absolute right-0 mt-1 z-50 rounded-md border border-border bg-background shadow-lg p-1",
+            className,
+          )}
+        >
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DropdownMenuItem = React.forwardRef<HTMLButtonElement, React.ButtonHTMLAttributes<HTMLButtonElement>>(
+  ({ className, ...props }, ref) => (
+    <button
+      ref={ref}
+      role="menuitem"
+      tabIndex={-1}
+      className={cn(
+        "w-full flex items-center gap-2 px-2 py-1.5 rounded-sm text-xs text-left hover:bg-muted focus:bg-muted focus:outline-none transition-colors",
+        className,
+      )}
+      {...props}
+    />
+  ),
+);
+DropdownMenuItem.displayName = "DropdownMenuItem";
+
+const DropdownMenuLabel = ({ className, ...props }: React.HTMLAttributes<HTMLParagraphElement>) => (
+  <p className={cn("px-2 py-1 text-[10px] uppercase tracking-wide text-muted-foreground", className)} {...props} />
+);
+DropdownMenuLabel.displayName = "DropdownMenuLabel";
+
+export { DropdownMenu, DropdownMenuItem, DropdownMenuLabel };
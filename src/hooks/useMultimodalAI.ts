@@ -1,46 +1,108 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { AIProvider, resolveModel } from '@/lib/chat/providers';
+import { buildEmotionContextPayload } from '@/lib/chat/emotionContext';
+import { ChatRequest, ChatTransport, SummaryRequest, createChatTransport } from '@/lib/chat/transport';
+import { TimeoutError, isTransientError, withIdleTimeout, withRetry } from '@/lib/chat/retry';
+import { ConversationSummary, buildContextWindow, toHistoryEntry } from '@/lib/chat/context';
+import {
+  EmotionFusionStrategy,
+  FusedEmotion,
+  FusionStrategyId,
+  resolveFusionStrategy,
+} from '@/lib/emotion/fusion';
+import { EmotionSmoother, EmotionSmoothingConfig } from '@/lib/emotion/smoothing';
+import { BaselineRecorder, EmotionBaseline } from '@/lib/emotion/baseline';
+import { EmotionTimeline, EmotionWindowSummary, TimelineEntry } from '@/lib/emotion/timeline';
+import { SessionRecorder, SessionRecording } from '@/lib/session/recording';
+import type { SpeechRate } from '@/lib/audio/speechRate';
 import {
   FaceEmotionService,
   EmotionResult,
   getFaceEmotionService,
 } from '@/services/FaceEmotionService';
+import type { PrimaryFaceStrategy, TrackedFace } from '@/lib/face/tracker';
 import {
   VoiceAnalysisService,
   VoiceEmotionResult,
   TranscriptionResult,
   getVoiceAnalysisService,
 } from '@/services/VoiceAnalysisService';
+import { getConversationRepository } from '@/services/ConversationRepository';
+import { SessionReplayService } from '@/services/SessionReplayService';
+import { SpeechSynthesisService, getSpeechSynthesisService } from '@/services/SpeechSynthesisService';
 
-export type AIProvider = 'claude' | 'openai';
+export type { AIProvider } from '@/lib/chat/providers';
 
-// Model used: Claude Sonnet 4 - optimal for empathetic conversation
-export const CLAUDE_MODEL = 'claude-sonnet-4-20250514';
+// Delivery of a user turn to chat-ai. UI only: never persisted or recorded, so loaded messages have none
+export type MessageStatus = 'pending' | 'sent' | 'failed';
 
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  // User messages only; `pending` covers both in-flight and queued while offline
+  status?: MessageStatus;
+  // Assistant reply cut short by the user (barge-in or stop)
+  interrupted?: boolean;
   emotionContext?: {
     facial: EmotionResult | null;
     voice: VoiceEmotionResult | null;
+    // Aggregate over the whole utterance (user messages only)
+    summary?: EmotionWindowSummary;
+    // Rate of the utterance the turn was spoken in (spoken user messages only)
+    speechRate?: SpeechRate;
   };
 }
 
 export interface EmotionState {
   facial: EmotionResult | null;
   voice: VoiceEmotionResult | null;
-  combined: {
-    emotion: string;
-    confidence: number;
-  } | null;
+  // Fused reading as computed from the latest samples
+  combinedRaw: FusedEmotion | null;
+  // Temporally smoothed fusion with hysteresis on the label (equals combinedRaw when smoothing is off)
+  combined: FusedEmotion | null;
 }
 
 export interface UseMultimodalAIOptions {
   provider?: AIProvider;
+  // One of the provider's models in the registry; defaults to the provider's default model
+  model?: string;
   systemPrompt?: string;
+  // Persona the system prompt comes from, recorded on conversations started from now on
+  personaId?: string | null;
+  // Where turns are sent; defaults to the backend selected by VITE_CHAT_TRANSPORT
+  transport?: ChatTransport;
+  // Estimated tokens of history sent per turn; older turns are folded into a rolling summary
+  contextTokenBudget?: number;
+  // Per attempt at a chat-ai call, and the longest wait between streamed tokens; 0 disables the timeout
+  requestTimeoutMs?: number;
+  // Extra attempts after a timeout, network error or 5xx/429, with exponential backoff
+  maxRetries?: number;
   language?: string;
+  // Ask chat-ai to stream the reply; falls back to a single response if it doesn't
+  streaming?: boolean;
+  // How facial and voice readings are fused into `emotionState.combined`
+  fusionStrategy?: FusionStrategyId | EmotionFusionStrategy;
+  // EMA + hysteresis applied to the fused emotion; `false` disables it. Read at initialize()
+  smoothing?: EmotionSmoothingConfig | false;
+  // Max facial + voice readings kept in the session timeline
+  timelineCapacity?: number;
+  // Save each turn to the user's conversation history. Off unless the user explicitly opted in
+  persistConversations?: boolean;
+  // Read assistant replies aloud; recognition is paused while speaking
+  speakReplies?: boolean;
+  // Let the user interrupt a pending or spoken reply by speaking again; the new speech extends their turn
+  bargeIn?: boolean;
+  // Who decides the user finished speaking: the voice activity detector (default) or the speech recognizer
+  endpointing?: 'vad' | 'recognizer';
+  // Silence that ends an utterance under VAD endpointing. Read at initialize()
+  endOfUtteranceMs?: number;
+  // Track every face in frame; `emotionState.facial` follows the primary one. Read at initialize()
+  multiFace?: boolean;
+  primaryFace?: PrimaryFaceStrategy;
+  // Head pose, blink rate and attention from the landmark model, sent to chat-ai. Read at initialize()
+  faceLandmarks?: boolean;
   onEmotionChange?: (emotion: EmotionState) => void;
   onTranscription?: (text: string, isFinal: boolean) => void;
 }
@@ -51,8 +113,25 @@ export interface UseMultimodalAIReturn {
   currentTranscript: string;
   isListening: boolean;
   isProcessing: boolean;
+  isStreaming: boolean;
+  isSpeaking: boolean;
   emotionState: EmotionState;
+  // Faces seen in the latest detection, with stable IDs
+  faces: TrackedFace[];
+  // Rate of the last utterance the VAD ended; the rolling rate is in `emotionState.voice.metrics`
+  utteranceSpeechRate: SpeechRate | null;
   error: string | null;
+  provider: AIProvider;
+  model: string;
+  conversationId: string | null;
+  isRecording: boolean;
+  isReplaying: boolean;
+  // Calibrated neutral readings that facial and voice readings are normalised against
+  baseline: EmotionBaseline | null;
+  // 0-1 while calibrate() records, null otherwise
+  calibrationProgress: number | null;
+  // Turns sent while offline are queued and sent on reconnect
+  isOnline: boolean;
 
   // Services status
   isCameraActive: boolean;
@@ -67,8 +146,23 @@ export interface UseMultimodalAIReturn {
   startListening: () => void;
   stopListening: () => void;
   sendMessage: (text: string) => Promise<void>;
+  // Sends a failed user message again
+  retryMessage: (id: string) => Promise<void>;
+  getTimeline: (from?: number, to?: number) => TimelineEntry[];
+  summarizeEmotions: (from: number, to: number) => EmotionWindowSummary;
+  abortResponse: () => void;
+  resumeConversation: (conversationId: string) => Promise<void>;
   clearMessages: () => void;
-  setProvider: (provider: AIProvider) => void;
+  startRecording: () => void;
+  stopRecording: () => SessionRecording | null;
+  startReplay: (recording: SessionRecording) => void;
+  stopReplay: () => void;
+  // Unknown models fall back to the provider's default
+  setProvider: (provider: AIProvider, model?: string) => void;
+  // Records neutral face and speech; resolves to the new baseline, or null if cancelled or too few readings
+  calibrate: (durationMs?: number) => Promise<EmotionBaseline | null>;
+  cancelCalibration: () => void;
+  setBaseline: (baseline: EmotionBaseline | null) => void;
   dispose: () => void;
 }
 
@@ -76,49 +170,73 @@ function generateId(): string {
   return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-function combineEmotions(
-  facial: EmotionResult | null,
-  voice: VoiceEmotionResult | null
-): { emotion: string; confidence: number } | null {
-  if (!facial && !voice) return null;
+// End of sentence followed by whitespace, used to speak streamed replies sentence by sentence
+const SENTENCE_END = /[.!?…。！？]+["')\]»]*\s+/g;
 
-  if (!facial) {
-    return voice ? { emotion: voice.emotion, confidence: voice.confidence } : null;
+// Offset just past the last complete sentence found from `from`, or -1
+function lastSentenceBoundary(text: string, from: number): number {
+  SENTENCE_END.lastIndex = from;
+  let boundary = -1;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text))) {
+    boundary = match.index + match[0].length;
   }
+  return boundary;
+}
 
-  if (!voice) {
-    return { emotion: facial.dominant, confidence: facial.confidence };
-  }
+// Barge-in: an interim transcript only counts if it has enough words and the VAD
+// heard speech recently, so stray recognizer output doesn't cancel replies
+const BARGE_IN_MIN_WORDS = 2;
+const VOICE_ACTIVITY_WINDOW_MS = 600;
+// While a reply is spoken recognition is off, so speech heard by the VAD pauses the voice and turns
+// recognition back on; without a barge-in transcript within this window the reply carries on.
+// The mic can pick up the assistant's own voice, hence the confirmation rather than an outright cancel
+const SPOKEN_BARGE_IN_CONFIRM_MS = 1500;
 
-  // Weight facial expression more heavily (55% vs 38% according to Mehrabian)
-  const facialWeight = 0.55;
-  const voiceWeight = 0.38;
+// A late final result for a turn the VAD already sent is dropped if it arrives within this window
+const ENDPOINT_DEDUPE_WINDOW_MS = 3000;
 
-  // If both agree on the emotion, boost confidence
-  if (facial.dominant === voice.emotion) {
-    return {
-      emotion: facial.dominant,
-      confidence: Math.min(1, (facial.confidence * facialWeight + voice.confidence * voiceWeight) * 1.2),
-    };
-  }
+const normalizeUtterance = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
 
-  // Otherwise, use the one with higher weighted confidence
-  const facialScore = facial.confidence * facialWeight;
-  const voiceScore = voice.confidence * voiceWeight;
+// A user turn whose reply is still being requested or streamed
+interface PendingTurn {
+  userMessage: Message;
+  assistantId: string;
+  assistantStartedAt: number | null;
+  content: string;
+  controller: AbortController;
+}
 
-  if (facialScore >= voiceScore) {
-    return { emotion: facial.dominant, confidence: facialScore };
-  }
+// Window used for a turn's emotion summary when no transcript marked its start (e.g. typed edits)
+const DEFAULT_TURN_WINDOW_MS = 5000;
 
-  return { emotion: voice.emotion, confidence: voiceScore };
-}
+const DEFAULT_CALIBRATION_MS = 20000;
+const CALIBRATION_TICK_MS = 250;
 
 export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultimodalAIReturn {
   const {
     provider: initialProvider = 'claude',
+    model: initialModel,
     systemPrompt,
+    personaId = null,
+    transport,
+    contextTokenBudget = 3000,
+    requestTimeoutMs = 30000,
+    maxRetries = 2,
     // Use browser's language by default for automatic language detection
     language = typeof navigator !== 'undefined' ? navigator.language : 'en-US',
+    streaming = true,
+    fusionStrategy = 'weighted-average',
+    smoothing = {},
+    timelineCapacity = 6000,
+    persistConversations = false,
+    speakReplies = false,
+    bargeIn = true,
+    endpointing = 'vad',
+    endOfUtteranceMs,
+    multiFace = false,
+    primaryFace = 'prominent',
+    faceLandmarks = false,
     onEmotionChange,
     onTranscription,
   } = options;
@@ -128,22 +246,158 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
   const [currentTranscript, setCurrentTranscript] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
   const [emotionState, setEmotionState] = useState<EmotionState>({
     facial: null,
     voice: null,
+    combinedRaw: null,
     combined: null,
   });
+  const [faces, setFaces] = useState<TrackedFace[]>([]);
+  const [utteranceSpeechRate, setUtteranceSpeechRate] = useState<SpeechRate | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(() => (typeof navigator !== 'undefined' ? navigator.onLine : true));
   const [provider, setProviderState] = useState<AIProvider>(initialProvider);
+  const [model, setModel] = useState(() => resolveModel(initialProvider, initialModel).id);
+  const [defaultTransport] = useState(() => createChatTransport());
+  const chatTransport = transport ?? defaultTransport;
   const [isInitialized, setIsInitialized] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [isMicActive, setIsMicActive] = useState(false);
   const [isFaceDetectionActive, setIsFaceDetectionActive] = useState(false);
 
+  // Every facial/voice reading of the session, bounded
+  const [timeline] = useState(() => new EmotionTimeline(timelineCapacity));
+  // When the current user turn started (first transcript of the utterance)
+  const turnStartRef = useRef<number | null>(null);
+
+  // Persisted conversation the current messages belong to (only when persistence is on)
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
+  const pendingConversationRef = useRef<Promise<string> | null>(null);
+  // Changes when the chat is cleared or switched, so work started for the previous one
+  // (a conversation row being created, a summary) doesn't land on the new one
+  const conversationEpochRef = useRef(0);
+  // Client message id -> stored row id, so re-finalized messages are updated rather than duplicated
+  const persistedRowsRef = useRef(new Map<string, Promise<string>>());
+  // Messages whose last save failed (e.g. sent while offline), saved again once their turn gets through
+  const unsavedMessagesRef = useRef(new Map<string, Message>());
+  const persistConversationsRef = useRef(persistConversations);
+  const personaIdRef = useRef(personaId);
+
+  // Rolling summary of turns outside the context window
+  const summaryRef = useRef<ConversationSummary | null>(null);
+  // In-flight summary request, aborted when the chat is cleared or switched
+  const summaryControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    persistConversationsRef.current = persistConversations;
+  }, [persistConversations]);
+
+  useEffect(() => {
+    personaIdRef.current = personaId;
+  }, [personaId]);
+
+  // Takes effect on the recognizer's next session
+  useEffect(() => {
+    voiceServiceRef.current?.setLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    if (!speakReplies) return;
+
+    const speechService = getSpeechSynthesisService();
+    speechService.setLanguage(language);
+    speechService.onSpeakingChange((speaking) => {
+      setIsSpeaking(speaking);
+      // Don't let the recognizer transcribe the assistant's own voice
+      if (speaking) {
+        voiceServiceRef.current?.suspendTranscription();
+      } else {
+        voiceServiceRef.current?.resumeTranscription();
+      }
+    });
+    speechServiceRef.current = speechService;
+
+    return () => {
+      speechService.cancel();
+      speechServiceRef.current = null;
+    };
+  }, [speakReplies, language]);
+
+  // Session recording, and the replay source that stands in for the live services
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const replayServiceRef = useRef<SessionReplayService | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Whether face detection and listening were on when the replay started, restored when it ends
+  const replayResumeRef = useRef<{ faceDetection: boolean; listening: boolean } | null>(null);
+
   // Service refs
   const faceServiceRef = useRef<FaceEmotionService | null>(null);
   const voiceServiceRef = useRef<VoiceAnalysisService | null>(null);
 
+  // Calibration: the applied baseline, and the recorder collecting raw readings while calibrate() runs
+  const [baseline, setBaselineState] = useState<EmotionBaseline | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState<number | null>(null);
+  const baselineRef = useRef<EmotionBaseline | null>(null);
+  const baselineRecorderRef = useRef<BaselineRecorder | null>(null);
+  const cancelCalibrationRef = useRef<(() => void) | null>(null);
+
+  // Only set while speakReplies is on
+  const speechServiceRef = useRef<SpeechSynthesisService | null>(null);
+
+  // In-flight chat-ai request, aborted by abortResponse() or a newer message
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Turn-taking: the turn awaiting its reply, and the turn a barge-in should extend
+  const pendingTurnRef = useRef<PendingTurn | null>(null);
+  const mergeTargetRef = useRef<Message | null>(null);
+
+  // IDs of user turns held while offline, oldest first
+  const queuedTurnsRef = useRef<string[]>([]);
+  const isFlushingRef = useRef(false);
+  const lastVoiceActivityRef = useRef(0);
+  const bargeInRef = useRef(bargeIn);
+  // Pending confirmation of a barge-in heard while the reply was spoken
+  const spokenBargeInTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Endpointing: latest interim transcript, and the last turn the VAD sent before the recognizer finished
+  const endpointingRef = useRef(endpointing);
+  const interimTranscriptRef = useRef('');
+  const endpointedRef = useRef<{ text: string; at: number } | null>(null);
+
+  // Service callbacks outlive renders, so they read messages and sendMessage through refs
+  const messagesRef = useRef<Message[]>(messages);
+  const sendMessageRef = useRef<(text: string, speechRate?: SpeechRate | null) => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    bargeInRef.current = bargeIn;
+  }, [bargeIn]);
+
+  useEffect(() => {
+    endpointingRef.current = endpointing;
+  }, [endpointing]);
+
+  // Fusion strategy read by the service callbacks, so switching it doesn't require re-initializing
+  const fusionStrategyRef = useRef<EmotionFusionStrategy>(resolveFusionStrategy(fusionStrategy));
+
+  useEffect(() => {
+    fusionStrategyRef.current = resolveFusionStrategy(fusionStrategy);
+  }, [fusionStrategy]);
+
+  const smoothingRef = useRef(smoothing);
+  const smootherRef = useRef<EmotionSmoother | null>(null);
+
+  useEffect(() => {
+    smoothingRef.current = smoothing;
+  }, [smoothing]);
+
   // Latest emotion state for API calls
   const latestEmotionRef = useRef<EmotionState>(emotionState);
 
@@ -158,26 +412,207 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
     };
   }, []);
 
+  // Fuse the latest facial/voice pair and run it through the temporal filter
+  const fuseEmotionState = useCallback(
+    (facial: EmotionResult | null, voice: VoiceEmotionResult | null, timestamp: number): EmotionState => {
+      const combinedRaw = fusionStrategyRef.current.fuse(facial, voice);
+      const smoother = smootherRef.current;
+      return {
+        facial,
+        voice,
+        combinedRaw,
+        combined: smoother ? smoother.update(combinedRaw, timestamp) : combinedRaw,
+      };
+    },
+    []
+  );
+
+  // Saving history must never break the live conversation, so failures are only logged
+  const persistMessage = useCallback(async (message: Message) => {
+    if (!persistConversationsRef.current) return;
+
+    unsavedMessagesRef.current.delete(message.id);
+    try {
+      const repository = getConversationRepository();
+      const epoch = conversationEpochRef.current;
+      let conversationId = conversationIdRef.current;
+
+      if (!conversationId) {
+        // The user and assistant turns may both arrive before the conversation row exists
+        let creation = pendingConversationRef.current;
+        if (!creation) {
+          creation = repository
+            .createConversation(message.content, personaIdRef.current)
+            .then((conversation) => conversation.id);
+          pendingConversationRef.current = creation;
+        }
+        try {
+          conversationId = await creation;
+        } finally {
+          // Also after a failure, so the next message tries again
+          if (pendingConversationRef.current === creation) {
+            pendingConversationRef.current = null;
+          }
+        }
+        // Cleared or switched meanwhile: this message still goes to the row, but the new chat doesn't
+        if (conversationEpochRef.current === epoch) {
+          conversationIdRef.current = conversationId;
+          setConversationId(conversationId);
+        }
+      }
+
+      const existingRow = persistedRowsRef.current.get(message.id);
+      if (existingRow) {
+        await repository.updateMessage(conversationId, await existingRow, message);
+        return;
+      }
+
+      const row = repository.saveMessage(conversationId, message);
+      persistedRowsRef.current.set(message.id, row);
+      row.catch(() => persistedRowsRef.current.delete(message.id));
+      await row;
+    } catch (err) {
+      unsavedMessagesRef.current.set(message.id, message);
+      console.error('[useMultimodalAI] Failed to persist message:', err);
+    }
+  }, []);
+
+  // Saves a message again if its last save failed; called before its reply is saved, so the stored
+  // conversation keeps the prompt (and takes its title from it)
+  const persistIfUnsaved = useCallback(
+    (id: string) => {
+      const unsaved = unsavedMessagesRef.current.get(id);
+      if (unsaved) void persistMessage(unsaved);
+    },
+    [persistMessage]
+  );
+
+  // Called when a message's content is final (user turn sent, assistant reply complete or cut short).
+  // A barge-in can finalize the same message again with new content; it's then updated in place
+  const finalizeMessage = useCallback(
+    (message: Message) => {
+      recorderRef.current?.record('message', message);
+      void persistMessage(message);
+    },
+    [persistMessage]
+  );
+
+  // `only` restricts the change to messages currently in that status
+  const setMessageStatus = useCallback((id: string, status: MessageStatus, only?: MessageStatus) => {
+    setMessages((prev) =>
+      prev.map((msg) => (msg.id === id && (!only || msg.status === only) ? { ...msg, status } : msg))
+    );
+  }, []);
+
+  // Messages before `id`, or all of them if it isn't shown yet
+  const historyBefore = useCallback((id: string): Message[] => {
+    const current = messagesRef.current;
+    const index = current.findIndex((msg) => msg.id === id);
+    return index >= 0 ? current.slice(0, index) : current;
+  }, []);
+
+  // Stops the pending reply, keeping any partial content as an interrupted assistant message
+  const interruptPendingTurn = useCallback((): PendingTurn | null => {
+    speechServiceRef.current?.cancel();
+
+    const turn = pendingTurnRef.current;
+    if (!turn) return null;
+
+    pendingTurnRef.current = null;
+    turn.controller.abort();
+    if (abortControllerRef.current === turn.controller) {
+      abortControllerRef.current = null;
+    }
+    setIsProcessing(false);
+    setIsStreaming(false);
+
+    if (turn.content) {
+      const partial: Message = {
+        id: turn.assistantId,
+        role: 'assistant',
+        content: turn.content,
+        timestamp: turn.assistantStartedAt ?? Date.now(),
+        interrupted: true,
+      };
+      setMessages((prev) => prev.map((msg) => (msg.id === partial.id ? partial : msg)));
+      finalizeMessage(partial);
+    }
+
+    return turn;
+  }, [finalizeMessage]);
+
+  const clearSpokenBargeIn = useCallback(() => {
+    if (spokenBargeInTimerRef.current) {
+      clearTimeout(spokenBargeInTimerRef.current);
+      spokenBargeInTimerRef.current = null;
+    }
+  }, []);
+
+  // The user resumed speaking: any final transcript, or an interim one backed by detected speech
+  const isBargeIn = useCallback((result: TranscriptionResult): boolean => {
+    if (result.isFinal) return result.text.trim().length > 0;
+
+    const words = result.text.trim().split(/\s+/).filter(Boolean).length;
+    const recentlyActive =
+      voiceServiceRef.current?.isSpeechActive() ||
+      result.timestamp - lastVoiceActivityRef.current < VOICE_ACTIVITY_WINDOW_MS;
+    return words >= BARGE_IN_MIN_WORDS && recentlyActive;
+  }, []);
+
+  // Reading handlers shared by the live services and the replay source
+  const handleFacialEmotion = useCallback(
+    (result: EmotionResult) => {
+      baselineRecorderRef.current?.addFacial(result);
+      timeline.addFacial(result);
+      recorderRef.current?.record('facial', result);
+      setEmotionState((prev) => {
+        const newState = fuseEmotionState(result, prev.voice, result.timestamp);
+        onEmotionChange?.(newState);
+        return newState;
+      });
+    },
+    [timeline, fuseEmotionState, onEmotionChange]
+  );
+
+  const handleVoiceEmotion = useCallback(
+    (result: VoiceEmotionResult) => {
+      baselineRecorderRef.current?.addVoice(result);
+      timeline.addVoice(result);
+      recorderRef.current?.record('voice', result);
+      setEmotionState((prev) => {
+        const newState = fuseEmotionState(prev.facial, result, result.timestamp);
+        onEmotionChange?.(newState);
+        return newState;
+      });
+    },
+    [timeline, fuseEmotionState, onEmotionChange]
+  );
+
+  const resetSmoother = useCallback(() => {
+    smootherRef.current = smoothingRef.current ? new EmotionSmoother(smoothingRef.current) : null;
+  }, []);
+
   const initialize = useCallback(
     async (videoElement: HTMLVideoElement, audioStream: MediaStream) => {
       try {
         setError(null);
 
+        resetSmoother();
+
         // Initialize face emotion service
         const faceService = getFaceEmotionService();
+        faceService.setDetectionMode({ multiFace, primaryFace, landmarks: faceLandmarks });
         await faceService.initialize();
         faceService.setVideoElement(videoElement);
-        faceService.onEmotion((result: EmotionResult) => {
-          setEmotionState((prev) => {
-            const newState = {
-              ...prev,
-              facial: result,
-              combined: combineEmotions(result, prev.voice),
-            };
-            onEmotionChange?.(newState);
-            return newState;
-          });
+        faceService.onEmotion(handleFacialEmotion);
+        faceService.onFaces(setFaces);
+        faceService.onError((err) => {
+          setError(err.message);
+          setIsFaceDetectionActive(false);
+          setFaces([]);
         });
+        faceService.setVoiceActivitySource(() => voiceServiceRef.current?.isSpeechActive() ?? false);
+        faceService.setBaseline(baselineRef.current?.facial ?? null);
         faceServiceRef.current = faceService;
         setIsCameraActive(true);
 
@@ -186,25 +621,81 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
         await voiceService.initialize(audioStream);
         voiceService.setLanguage(language);
 
-        voiceService.onVoiceEmotion((result: VoiceEmotionResult) => {
-          setEmotionState((prev) => {
-            const newState = {
-              ...prev,
-              voice: result,
-              combined: combineEmotions(prev.facial, result),
-            };
-            onEmotionChange?.(newState);
-            return newState;
-          });
+        voiceService.onVoiceEmotion(handleVoiceEmotion);
+        voiceService.setBaseline(baselineRef.current?.voice ?? null);
+
+        if (endOfUtteranceMs !== undefined) {
+          voiceService.setEndOfUtterance(endOfUtteranceMs);
+        }
+
+        voiceService.onSpeechStart((timestamp) => {
+          lastVoiceActivityRef.current = timestamp;
+          turnStartRef.current ??= timestamp;
+
+          const speech = speechServiceRef.current;
+          if (!bargeInRef.current || !speech?.isSpeaking() || speech.isPaused()) return;
+
+          speech.pause();
+          voiceService.resumeTranscription(0);
+          spokenBargeInTimerRef.current = setTimeout(() => {
+            spokenBargeInTimerRef.current = null;
+            // Nothing was said: noise, or the assistant's voice picked up by the mic
+            if (speech.isPaused()) {
+              voiceService.suspendTranscription();
+              speech.resume();
+            }
+          }, SPOKEN_BARGE_IN_CONFIRM_MS);
+        });
+
+        voiceService.onSpeechEnd((segment, rate) => {
+          lastVoiceActivityRef.current = segment.end;
+          setUtteranceSpeechRate(rate);
+
+          // The recognizer often waits a second or more before finalizing; the VAD already knows the turn is over
+          const text = interimTranscriptRef.current.trim();
+          if (endpointingRef.current !== 'vad' || !text) return;
+
+          interimTranscriptRef.current = '';
+          endpointedRef.current = { text: normalizeUtterance(text), at: Date.now() };
+          voiceService.abortUtterance();
+          sendMessageRef.current(text, rate);
+          setCurrentTranscript('');
         });
 
         voiceService.onTranscription((result: TranscriptionResult) => {
+          recorderRef.current?.record('transcription', result);
+
+          // Skip the recognizer's own final for a turn the VAD already sent
+          const endpointed = endpointedRef.current;
+          if (endpointed) {
+            const text = normalizeUtterance(result.text);
+            const isEcho =
+              result.timestamp - endpointed.at < ENDPOINT_DEDUPE_WINDOW_MS &&
+              (text.startsWith(endpointed.text) || endpointed.text.startsWith(text));
+            if (!isEcho || result.isFinal) endpointedRef.current = null;
+            if (isEcho) return;
+          }
+
+          interimTranscriptRef.current = result.isFinal ? '' : result.text;
+          turnStartRef.current ??= result.timestamp;
           setCurrentTranscript(result.text);
           onTranscription?.(result.text, result.isFinal);
 
+          const isReplying = pendingTurnRef.current || speechServiceRef.current?.isSpeaking();
+          if (bargeInRef.current && isReplying && isBargeIn(result)) {
+            clearSpokenBargeIn();
+            // Also stops the voice when the reply is complete but still being spoken
+            const interrupted = interruptPendingTurn();
+            if (interrupted) {
+              mergeTargetRef.current = interrupted.userMessage;
+              console.log('[useMultimodalAI] Barge-in: reply interrupted, merging into user turn');
+            }
+          }
+
           if (result.isFinal && result.text.trim()) {
-            // Auto-send on final transcription
-            sendMessage(result.text.trim());
+            // Auto-send on final transcription. The VAD usually ended the utterance already; the rate
+            // now also counts the transcript's words
+            sendMessageRef.current(result.text.trim(), voiceService.getUtteranceSpeechRate());
             setCurrentTranscript('');
           }
         });
@@ -227,7 +718,20 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
         throw err;
       }
     },
-    [language, onEmotionChange, onTranscription]
+    [
+      language,
+      endOfUtteranceMs,
+      multiFace,
+      primaryFace,
+      faceLandmarks,
+      resetSmoother,
+      handleFacialEmotion,
+      handleVoiceEmotion,
+      isBargeIn,
+      clearSpokenBargeIn,
+      interruptPendingTurn,
+      onTranscription,
+    ]
   );
 
   // Face detection controls - separate from voice listening
@@ -237,7 +741,11 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
       return;
     }
 
-    faceServiceRef.current?.startDetection();
+    // Reloads the models if a failure stopped detection, which can fail again
+    faceServiceRef.current?.startDetection().catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to start face detection');
+      setIsFaceDetectionActive(false);
+    });
     setIsFaceDetectionActive(true);
     console.log('[useMultimodalAI] Face detection started');
   }, [isInitialized]);
@@ -245,6 +753,7 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
   const stopFaceDetection = useCallback(() => {
     faceServiceRef.current?.stopDetection();
     setIsFaceDetectionActive(false);
+    setFaces([]);
     console.log('[useMultimodalAI] Face detection stopped');
   }, []);
 
@@ -267,98 +776,597 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
     // Only stop voice analysis, keep face detection running
     voiceServiceRef.current?.stopListening();
     voiceServiceRef.current?.stopTranscription();
+    interimTranscriptRef.current = '';
 
     setIsListening(false);
     console.log('[useMultimodalAI] Stopped voice listening (face detection continues)');
   }, []);
 
-  const sendMessage = useCallback(
-    async (text: string) => {
-      if (!text.trim()) return;
+  // Folds turns that fell out of the context window into the summary, in the background
+  const updateSummary = useCallback(
+    async (turns: Message[]) => {
+      if (turns.length === 0 || summaryControllerRef.current) return;
+
+      const controller = new AbortController();
+      summaryControllerRef.current = controller;
+      const epoch = conversationEpochRef.current;
+      const previous = summaryRef.current;
+      const request: SummaryRequest = {
+        previousSummary: previous?.text ?? null,
+        messages: turns.map(toHistoryEntry),
+        provider,
+        model: resolveModel(provider, model).id,
+      };
+
+      try {
+        const text = await withRetry((signal) => chatTransport.summarize(request, signal), controller.signal, {
+          retries: maxRetries,
+          timeoutMs: requestTimeoutMs,
+        });
+        if (controller.signal.aborted || conversationEpochRef.current !== epoch) return;
+
+        const summary: ConversationSummary = { text, throughTimestamp: turns[turns.length - 1].timestamp };
+        summaryRef.current = summary;
+        console.log('[useMultimodalAI] Summarized', turns.length, 'older messages');
+
+        const id = conversationIdRef.current;
+        if (id && persistConversationsRef.current) {
+          await getConversationRepository().saveSummary(id, summary);
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        // The turns stay unsummarized and are retried with the next message
+        console.error('[useMultimodalAI] Failed to update conversation summary:', err);
+      } finally {
+        if (summaryControllerRef.current === controller) {
+          summaryControllerRef.current = null;
+        }
+      }
+    },
+    [chatTransport, provider, model, requestTimeoutMs, maxRetries]
+  );
+
+  // Requests the reply to a user turn that's already in `messages`, given the history before it.
+  // Resolves to the assistant message, or null if the turn failed, was queued or was cut short
+  const requestReply = useCallback(
+    async (userMessage: Message, history: Message[]): Promise<Message | null> => {
+      // A newer turn replaces the pending one, which can be retried from its bubble
+      const replaced = pendingTurnRef.current;
+      abortControllerRef.current?.abort();
+      if (replaced && replaced.userMessage.id !== userMessage.id) {
+        setMessageStatus(replaced.userMessage.id, 'failed', 'pending');
+      }
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       setIsProcessing(true);
+      setIsStreaming(false);
       setError(null);
 
+      const turn: PendingTurn = {
+        userMessage,
+        assistantId: generateId(),
+        assistantStartedAt: null,
+        content: '',
+        controller,
+      };
+      pendingTurnRef.current = turn;
+      const assistantId = turn.assistantId;
+      let spokenUpTo = 0;
+      let assistantMessage: Message | null = null;
+      // Set when the stream stopped sending tokens and was cancelled, which isn't a user abort
+      let stalled = false;
+
+      // Prosody follows the user's emotion at the time each sentence is spoken
+      const speak = (text: string) =>
+        speechServiceRef.current?.speak(text, latestEmotionRef.current.combined?.emotion);
+
+      // Replies go right after their turn, which may no longer be the last message once queued turns flush.
+      // After a barge-in they follow the reply that was cut short, as they do when sorted by time on resume
+      const insertReply = (reply: Message) =>
+        setMessages((prev) => {
+          let index = prev.findIndex((msg) => msg.id === userMessage.id);
+          if (index < 0) return [...prev, reply];
+          while (prev[index + 1]?.role === 'assistant' && prev[index + 1].interrupted) index++;
+          return [...prev.slice(0, index + 1), reply, ...prev.slice(index + 1)];
+        });
+
+      try {
+        // Recent turns within the token budget, the summary for the rest
+        const context = buildContextWindow(history, summaryRef.current, { budgetTokens: contextTokenBudget });
+        void updateSummary(context.unsummarized);
+
+        const modelInfo = resolveModel(provider, model);
+        const { facial = null, voice = null, summary } = userMessage.emotionContext ?? {};
+        const request: ChatRequest = {
+          message: userMessage.content,
+          emotionContext: buildEmotionContextPayload(
+            facial,
+            voice,
+            summary ?? timeline.summarize(userMessage.timestamp - DEFAULT_TURN_WINDOW_MS, userMessage.timestamp)
+          ),
+          conversationHistory: context.history,
+          conversationSummary: context.summary,
+          provider,
+          model: modelInfo.id,
+          systemPrompt,
+          stream: streaming && modelInfo.capabilities.streaming,
+        };
+
+        const reply = await withRetry((signal) => chatTransport.send(request, signal), controller.signal, {
+          retries: maxRetries,
+          timeoutMs: requestTimeoutMs,
+          onRetry: (attempt, err, delayMs) =>
+            console.warn(
+              `[useMultimodalAI] chat-ai attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms:`,
+              err
+            ),
+        });
+
+        if (controller.signal.aborted) return null;
+        setMessageStatus(userMessage.id, 'sent');
+        persistIfUnsaved(userMessage.id);
+
+        if (reply.kind === 'stream') {
+          // Streaming: insert an empty assistant message and grow it token by token
+          const startedAt = Date.now();
+          turn.assistantStartedAt = startedAt;
+          insertReply({ id: assistantId, role: 'assistant', content: '', timestamp: startedAt });
+          setIsStreaming(true);
+
+          const deltas = withIdleTimeout(reply.deltas, requestTimeoutMs, () => {
+            stalled = true;
+            controller.abort();
+          });
+          for await (const delta of deltas) {
+            if (controller.signal.aborted) break;
+            turn.content += delta;
+            const content = turn.content;
+            setMessages((prev) =>
+              prev.map((msg) => (msg.id === assistantId ? { ...msg, content } : msg))
+            );
+
+            const boundary = lastSentenceBoundary(turn.content, spokenUpTo);
+            if (boundary > spokenUpTo) {
+              speak(turn.content.slice(spokenUpTo, boundary));
+              spokenUpTo = boundary;
+            }
+          }
+
+          if (!controller.signal.aborted) {
+            speak(turn.content.slice(spokenUpTo));
+          }
+
+          if (turn.content && !controller.signal.aborted) {
+            assistantMessage = { id: assistantId, role: 'assistant', content: turn.content, timestamp: startedAt };
+            finalizeMessage(assistantMessage);
+          }
+        } else {
+          assistantMessage = {
+            id: assistantId,
+            role: 'assistant',
+            content: reply.content,
+            timestamp: Date.now(),
+          };
+
+          insertReply(assistantMessage);
+          finalizeMessage(assistantMessage);
+          speak(assistantMessage.content);
+        }
+      } catch (err) {
+        // Aborts are settled by whoever aborted: a newer turn, abortResponse() or a barge-in
+        if (controller.signal.aborted && !stalled) return null;
+        const failure = stalled ? new TimeoutError(requestTimeoutMs) : err;
+
+        // A reply cut off midway is dropped, so the retry or the queue starts it over cleanly
+        if (turn.assistantStartedAt !== null) {
+          if (spokenUpTo > 0) speechServiceRef.current?.cancel();
+          setMessages((prev) => prev.filter((msg) => msg.id !== assistantId));
+        }
+
+        // The turn may already be `sent` if the stream broke after it opened
+        if (isTransientError(failure) && !navigator.onLine) {
+          // Connection dropped mid-request: hold the turn until it's back
+          setMessageStatus(userMessage.id, 'pending');
+          queuedTurnsRef.current.push(userMessage.id);
+          console.log('[useMultimodalAI] Offline, queued message', userMessage.id);
+        } else {
+          setMessageStatus(userMessage.id, 'failed');
+          const message = failure instanceof Error ? failure.message : 'Failed to send message';
+          setError(message);
+          console.error('[useMultimodalAI] Send message error:', failure);
+        }
+      } finally {
+        // Drop the placeholder if the stream ended before any token arrived
+        if (!turn.content) {
+          setMessages((prev) => prev.filter((msg) => msg.id !== assistantId || msg.content));
+        }
+
+        if (pendingTurnRef.current === turn) {
+          pendingTurnRef.current = null;
+        }
+
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsProcessing(false);
+          setIsStreaming(false);
+        }
+      }
+
+      return assistantMessage;
+    },
+    [
+      chatTransport,
+      provider,
+      model,
+      systemPrompt,
+      streaming,
+      contextTokenBudget,
+      requestTimeoutMs,
+      maxRetries,
+      timeline,
+      finalizeMessage,
+      persistIfUnsaved,
+      updateSummary,
+      setMessageStatus,
+    ]
+  );
+
+  // `speechRate` is the rate of the utterance a spoken turn came from
+  const sendMessage = useCallback(
+    async (text: string, speechRate?: SpeechRate | null) => {
+      if (!text.trim()) return;
+
+      // After a barge-in the new speech extends the interrupted user turn
+      const mergeTarget = mergeTargetRef.current;
+      mergeTargetRef.current = null;
+
+      const now = Date.now();
+      const turnStart =
+        mergeTarget?.emotionContext?.summary?.from ?? turnStartRef.current ?? now - DEFAULT_TURN_WINDOW_MS;
+      const summary = timeline.summarize(turnStart, now);
+      turnStartRef.current = null;
+
       const userMessage: Message = {
-        id: generateId(),
+        id: mergeTarget?.id ?? generateId(),
         role: 'user',
-        content: text.trim(),
-        timestamp: Date.now(),
+        content: mergeTarget ? `${mergeTarget.content} ${text.trim()}` : text.trim(),
+        timestamp: mergeTarget?.timestamp ?? now,
         emotionContext: {
           facial: latestEmotionRef.current.facial,
           voice: latestEmotionRef.current.voice,
+          summary,
+          // Utterances too short to measure report 0
+          ...(speechRate?.syllablesPerSecond && { speechRate }),
         },
       };
 
-      setMessages((prev) => [...prev, userMessage]);
+      // History is everything before this turn, read from the ref so it's never a stale render
+      const history = historyBefore(userMessage.id);
 
-      try {
-        // Prepare conversation history (last 10 messages for context)
-        const conversationHistory = messages.slice(-10).map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        }));
-
-        // Call the Edge Function
-        const { data, error: fnError } = await supabase.functions.invoke('chat-ai', {
-          body: {
-            message: text.trim(),
-            emotionContext: {
-              facial: latestEmotionRef.current.facial
-                ? {
-                    emotion: latestEmotionRef.current.facial.dominant,
-                    confidence: latestEmotionRef.current.facial.confidence,
-                  }
-                : null,
-              voice: latestEmotionRef.current.voice
-                ? {
-                    emotion: latestEmotionRef.current.voice.emotion,
-                    confidence: latestEmotionRef.current.voice.confidence,
-                    metrics: latestEmotionRef.current.voice.metrics,
-                  }
-                : null,
-            },
-            conversationHistory,
-            provider,
-            model: CLAUDE_MODEL,
-            systemPrompt,
-          },
+      const shown: Message = { ...userMessage, status: 'pending' };
+      if (mergeTarget) {
+        setMessages((prev) => prev.map((msg) => (msg.id === userMessage.id ? shown : msg)));
+      } else {
+        setMessages((prev) => [...prev, shown]);
+      }
+      finalizeMessage(userMessage);
+
+      if (!navigator.onLine) {
+        queuedTurnsRef.current.push(userMessage.id);
+        console.log('[useMultimodalAI] Offline, queued message', userMessage.id);
+        return;
+      }
+
+      await requestReply(userMessage, history);
+    },
+    [timeline, finalizeMessage, historyBefore, requestReply]
+  );
+
+  useEffect(() => {
+    sendMessageRef.current = sendMessage;
+  }, [sendMessage]);
+
+  const retryMessage = useCallback(
+    async (id: string) => {
+      const message = messagesRef.current.find((msg) => msg.id === id);
+      if (!message || message.role !== 'user' || message.status !== 'failed') return;
+
+      setMessageStatus(id, 'pending');
+      if (!navigator.onLine) {
+        queuedTurnsRef.current.push(id);
+        return;
+      }
+      await requestReply(message, historyBefore(id));
+    },
+    [historyBefore, requestReply, setMessageStatus]
+  );
+
+  // Sends the turns held while offline, oldest first, each with the replies before it as history
+  const flushQueuedTurns = useCallback(async () => {
+    if (isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    // Replies from this flush, as messagesRef only catches up after the next render
+    const replies = new Map<string, Message>();
+    try {
+      while (queuedTurnsRef.current.length > 0 && navigator.onLine) {
+        const id = queuedTurnsRef.current.shift()!;
+        const current = messagesRef.current;
+        const message = current.find((msg) => msg.id === id);
+        if (!message) continue;
+        // Queued and requeued turns usually failed to save while offline; keep the prompt ahead of its reply
+        persistIfUnsaved(id);
+
+        const history = historyBefore(id).flatMap((msg) => {
+          const reply = replies.get(msg.id);
+          return reply && !current.some((m) => m.id === reply.id) ? [msg, reply] : [msg];
         });
+        const reply = await requestReply(message, history);
+        if (reply) replies.set(id, reply);
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [historyBefore, persistIfUnsaved, requestReply]);
 
-        if (fnError) {
-          throw new Error(fnError.message);
-        }
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      console.log('[useMultimodalAI] Back online, sending', queuedTurnsRef.current.length, 'queued messages');
+      void flushQueuedTurns();
+    };
+    const handleOffline = () => setIsOnline(false);
 
-        const assistantMessage: Message = {
-          id: generateId(),
-          role: 'assistant',
-          content: data.response,
-          timestamp: Date.now(),
-        };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushQueuedTurns]);
+
+  const getTimeline = useCallback(
+    (from?: number, to?: number) => timeline.range(from, to),
+    [timeline]
+  );
+
+  const summarizeEmotions = useCallback(
+    (from: number, to: number) => timeline.summarize(from, to),
+    [timeline]
+  );
+
+  const abortResponse = useCallback(() => {
+    // Keep whatever was streamed so far; the finally block in requestReply skips state updates
+    const turn = interruptPendingTurn();
+    if (turn) {
+      // Stopped before chat-ai answered: the turn can be retried
+      setMessageStatus(turn.userMessage.id, 'failed', 'pending');
+      console.log('[useMultimodalAI] Response aborted');
+    }
+  }, [interruptPendingTurn, setMessageStatus]);
 
-        setMessages((prev) => [...prev, assistantMessage]);
+  const resumeConversation = useCallback(
+    async (id: string) => {
+      abortResponse();
+      setError(null);
+
+      try {
+        const repository = getConversationRepository();
+        const [loaded, summary] = await Promise.all([repository.loadMessages(id), repository.loadSummary(id)]);
+        conversationEpochRef.current++;
+        summaryControllerRef.current?.abort();
+        summaryControllerRef.current = null;
+        summaryRef.current = summary;
+        queuedTurnsRef.current = [];
+        pendingConversationRef.current = null;
+        conversationIdRef.current = id;
+        persistedRowsRef.current = new Map(loaded.map((msg) => [msg.id, Promise.resolve(msg.id)]));
+        unsavedMessagesRef.current.clear();
+        setConversationId(id);
+        setMessages(loaded);
+        setCurrentTranscript('');
+        turnStartRef.current = null;
+        console.log('[useMultimodalAI] Resumed conversation', id);
       } catch (err) {
-        const message = err instanceof Error ? err.message : 'Failed to send message';
+        const message = err instanceof Error ? err.message : 'Failed to load conversation';
         setError(message);
-        console.error('[useMultimodalAI] Send message error:', err);
-      } finally {
-        setIsProcessing(false);
+        console.error('[useMultimodalAI] Resume conversation error:', err);
       }
     },
-    [messages, provider, systemPrompt]
+    [abortResponse]
   );
 
   const clearMessages = useCallback(() => {
+    abortResponse();
+    timeline.clear();
+    turnStartRef.current = null;
+    conversationEpochRef.current++;
+    summaryControllerRef.current?.abort();
+    summaryControllerRef.current = null;
+    summaryRef.current = null;
+    queuedTurnsRef.current = [];
+    // A cleared chat starts a new conversation on its next message
+    conversationIdRef.current = null;
+    pendingConversationRef.current = null;
+    persistedRowsRef.current.clear();
+    unsavedMessagesRef.current.clear();
+    setConversationId(null);
     setMessages([]);
     setCurrentTranscript('');
     setError(null);
+  }, [abortResponse, timeline]);
+
+  const startRecording = useCallback(() => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    recorderRef.current = recorder;
+    setIsRecording(true);
+    console.log('[useMultimodalAI] Recording started');
+  }, []);
+
+  const stopRecording = useCallback((): SessionRecording | null => {
+    const recorder = recorderRef.current;
+    if (!recorder) return null;
+
+    recorderRef.current = null;
+    setIsRecording(false);
+    const recording = recorder.stop();
+    console.log('[useMultimodalAI] Recording stopped,', recording.events.length, 'events');
+    return recording;
   }, []);
 
-  const setProvider = useCallback((newProvider: AIProvider) => {
+  // Stops the replay; `restore` turns face detection and listening back on if they ran before it
+  const endReplay = useCallback(
+    (restore: boolean) => {
+      replayServiceRef.current?.dispose();
+      replayServiceRef.current = null;
+      setIsReplaying(false);
+
+      const resume = replayResumeRef.current;
+      replayResumeRef.current = null;
+      if (!restore || !resume) return;
+      if (resume.faceDetection) startFaceDetection();
+      if (resume.listening) startListening();
+    },
+    [startFaceDetection, startListening]
+  );
+
+  const stopReplay = useCallback(() => endReplay(true), [endReplay]);
+
+  const startReplay = useCallback(
+    (recording: SessionRecording) => {
+      replayServiceRef.current?.dispose();
+      replayServiceRef.current = null;
+      clearMessages();
+
+      // Live readings would interleave with the replayed ones. A replay replacing another keeps the
+      // state from before the first
+      replayResumeRef.current ??= { faceDetection: isFaceDetectionActive, listening: isListening };
+      faceServiceRef.current?.stopDetection();
+      voiceServiceRef.current?.stopListening();
+      voiceServiceRef.current?.stopTranscription();
+      setIsFaceDetectionActive(false);
+      setIsListening(false);
+
+      resetSmoother();
+      setEmotionState({ facial: null, voice: null, combinedRaw: null, combined: null });
+
+      const replay = new SessionReplayService(recording);
+      replay.onEmotion(handleFacialEmotion);
+      replay.onVoiceEmotion(handleVoiceEmotion);
+      replay.onTranscription((result) => {
+        // Replayed transcripts are display-only: the recorded messages follow on their own
+        setCurrentTranscript(result.isFinal ? '' : result.text);
+        onTranscription?.(result.text, result.isFinal);
+      });
+      replay.onMessage((message) => {
+        // Messages re-finalized live (barge-in merges, interruptions) replace their earlier version
+        setMessages((prev) =>
+          prev.some((msg) => msg.id === message.id)
+            ? prev.map((msg) => (msg.id === message.id ? message : msg))
+            : [...prev, message]
+        );
+      });
+      replay.onEnd(() => {
+        if (replayServiceRef.current === replay) endReplay(true);
+      });
+
+      replayServiceRef.current = replay;
+      setIsReplaying(true);
+      replay.play();
+    },
+    [
+      endReplay,
+      clearMessages,
+      isFaceDetectionActive,
+      isListening,
+      resetSmoother,
+      handleFacialEmotion,
+      handleVoiceEmotion,
+      onTranscription,
+    ]
+  );
+
+  const setProvider = useCallback((newProvider: AIProvider, newModel?: string) => {
     setProviderState(newProvider);
+    setModel(resolveModel(newProvider, newModel).id);
+  }, []);
+
+  const setBaseline = useCallback((next: EmotionBaseline | null) => {
+    baselineRef.current = next;
+    setBaselineState(next);
+    faceServiceRef.current?.setBaseline(next?.facial ?? null);
+    voiceServiceRef.current?.setBaseline(next?.voice ?? null);
   }, []);
 
+  const cancelCalibration = useCallback(() => {
+    cancelCalibrationRef.current?.();
+  }, []);
+
+  const calibrate = useCallback(
+    async (durationMs = DEFAULT_CALIBRATION_MS): Promise<EmotionBaseline | null> => {
+      const faceService = faceServiceRef.current;
+      const voiceService = voiceServiceRef.current;
+      if (!faceService || !voiceService) {
+        setError('Services not initialized. Call initialize() first.');
+        return null;
+      }
+
+      cancelCalibrationRef.current?.();
+      setError(null);
+
+      // Analyze speech without transcribing it, so the calibration sentence isn't sent as a message
+      if (isListening) stopListening();
+      voiceService.startListening();
+
+      // The recorder needs raw readings
+      faceService.setBaseline(null);
+      voiceService.setBaseline(null);
+      const recorder = new BaselineRecorder();
+      baselineRecorderRef.current = recorder;
+      setCalibrationProgress(0);
+
+      const startedAt = Date.now();
+      const completed = await new Promise<boolean>((resolve) => {
+        const finish = (done: boolean) => {
+          window.clearInterval(timer);
+          cancelCalibrationRef.current = null;
+          resolve(done);
+        };
+        const timer = window.setInterval(() => {
+          const progress = Math.min(1, (Date.now() - startedAt) / durationMs);
+          setCalibrationProgress(progress);
+          if (progress >= 1) finish(true);
+        }, CALIBRATION_TICK_MS);
+        cancelCalibrationRef.current = () => finish(false);
+      });
+
+      baselineRecorderRef.current = null;
+      voiceService.stopListening();
+      setCalibrationProgress(null);
+
+      const next = completed ? recorder.finish() : null;
+      if (completed && !next) {
+        setError('Calibration needs your face in view and a few seconds of speech. Please try again.');
+      }
+      // Cancelled or failed: keep whatever baseline was in place
+      setBaseline(next ?? baselineRef.current);
+      console.log('[useMultimodalAI] Calibration', next ? 'complete' : 'not applied', {
+        facial: recorder.facialSamples,
+        voice: recorder.voiceSamples,
+      });
+      return next;
+    },
+    [isListening, stopListening, setBaseline]
+  );
+
   const dispose = useCallback(() => {
+    clearSpokenBargeIn();
+    cancelCalibration();
+    abortResponse();
+    endReplay(false);
+    recorderRef.current = null;
     stopListening();
     stopFaceDetection();
 
@@ -377,7 +1385,7 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
     setIsMicActive(false);
     setIsFaceDetectionActive(false);
     console.log('[useMultimodalAI] Disposed');
-  }, [stopListening, stopFaceDetection]);
+  }, [clearSpokenBargeIn, cancelCalibration, abortResponse, endReplay, stopListening, stopFaceDetection]);
 
   return {
     // State
@@ -385,8 +1393,20 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
     currentTranscript,
     isListening,
     isProcessing,
+    isStreaming,
+    isSpeaking,
     emotionState,
+    faces,
+    utteranceSpeechRate,
     error,
+    provider,
+    model,
+    conversationId,
+    isRecording,
+    isReplaying,
+    baseline,
+    calibrationProgress,
+    isOnline,
 
     // Services status
     isCameraActive,
@@ -401,8 +1421,20 @@ export function useMultimodalAI(options: UseMultimodalAIOptions = {}): UseMultim
     startListening,
     stopListening,
     sendMessage,
+    retryMessage,
+    getTimeline,
+    summarizeEmotions,
+    abortResponse,
+    resumeConversation,
     clearMessages,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
     setProvider,
+    calibrate,
+    cancelCalibration,
+    setBaseline,
     dispose,
   };
 }
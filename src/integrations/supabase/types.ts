@@ -14,6 +14,74 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversation_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          emotion_context: Json | null
+          id: string
+          interrupted: boolean
+          role: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          emotion_context?: Json | null
+          id?: string
+          interrupted?: boolean
+          role: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          emotion_context?: Json | null
+          id?: string
+          interrupted?: boolean
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          context_summary: Json | null
+          created_at: string
+          id: string
+          persona_id: string | null
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          context_summary?: Json | null
+          created_at?: string
+          id?: string
+          persona_id?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          context_summary?: Json | null
+          created_at?: string
+          id?: string
+          persona_id?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       investors: {
         Row: {
           created_at: string
@@ -68,19 +136,67 @@ export type Database = {
         }
         Relationships: []
       }
+      personas: {
+        Row: {
+          created_at: string
+          description: string
+          emotion_rules: Json
+          id: string
+          language: string | null
+          name: string
+          system_prompt: string
+          tone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          emotion_rules?: Json
+          id?: string
+          language?: string | null
+          name: string
+          system_prompt: string
+          tone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          emotion_rules?: Json
+          id?: string
+          language?: string | null
+          name?: string
+          system_prompt?: string
+          tone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
+          ai_model: string | null
+          ai_provider: string | null
           created_at: string
+          emotion_baseline: Json | null
           id: string
           updated_at: string
         }
         Insert: {
+          ai_model?: string | null
+          ai_provider?: string | null
           created_at?: string
+          emotion_baseline?: Json | null
           id: string
           updated_at?: string
         }
         Update: {
+          ai_model?: string | null
+          ai_provider?: string | null
           created_at?: string
+          emotion_baseline?: Json | null
           id?: string
           updated_at?: string
         }
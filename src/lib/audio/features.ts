@@ -0,0 +1,154 @@
+// Framing and per-frame voice features, shared by the audio worklet and anything else that
+// has raw samples. Pure computation: no DOM or Web Audio APIs, so it runs in AudioWorkletGlobalScope.
+
+import { VoiceActivityDetector, type VadConfig, type VadSegment } from '@/lib/audio/vad';
+import { YinPitchTracker, type PitchTrackerConfig } from '@/lib/audio/pitch';
+import { SpectrumAnalyzer } from '@/lib/audio/spectrum';
+
+export interface VoiceFeatureConfig {
+  sampleRate: number;
+  // Analysis window in samples (power of two), long enough for two periods of the lowest pitch
+  windowSize?: number;
+  // VAD and level envelope hop
+  hopMs?: number;
+  // Pitch and spectrum hop, only computed while speaking
+  analysisHopMs?: number;
+  vad?: VadConfig;
+  pitch?: PitchTrackerConfig;
+}
+
+export interface VoiceFeatures {
+  pitch: number;
+  voicing: number;
+  volume: number;
+  energy: number;
+}
+
+export interface VoiceFeatureFrame {
+  // End of the hop, in ms on the audio clock
+  time: number;
+  // RMS of the hop, fine-grained enough for the syllable envelope
+  level: number;
+  isSpeech: boolean;
+  speechStart?: number;
+  speechEnd?: VadSegment;
+  // Present every analysis hop while speaking
+  features?: VoiceFeatures;
+}
+
+// Messages between VoiceAnalysisService and the worklet
+export type VoiceWorkletCommand =
+  | { type: 'listen'; enabled: boolean }
+  | { type: 'reset' }
+  | { type: 'endOfUtterance'; ms: number };
+
+export type VoiceWorkletMessage = { type: 'frames'; frames: VoiceFeatureFrame[] };
+
+export const VOICE_WORKLET_NAME = 'voice-analysis';
+
+export class VoiceFeatureExtractor {
+  private sampleRate: number;
+  private hopSize: number;
+  private analysisHopMs: number;
+
+  // Circular sample history, unrolled into `window` when a frame is analyzed
+  private ring: Float32Array;
+  private window: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  private sinceHop = 0;
+  private hopPower = 0;
+  private lastAnalysisAt = -Infinity;
+
+  private vad: VoiceActivityDetector;
+  private pitchTracker: YinPitchTracker;
+  private spectrum: SpectrumAnalyzer;
+
+  constructor(config: VoiceFeatureConfig) {
+    this.sampleRate = config.sampleRate;
+    this.hopSize = Math.round((config.sampleRate * (config.hopMs ?? 20)) / 1000);
+    this.analysisHopMs = config.analysisHopMs ?? 100;
+
+    const windowSize = config.windowSize ?? 2048;
+    this.ring = new Float32Array(windowSize);
+    this.window = new Float32Array(windowSize);
+    this.vad = new VoiceActivityDetector(config.vad);
+    this.pitchTracker = new YinPitchTracker(config.pitch);
+    this.spectrum = new SpectrumAnalyzer(windowSize);
+  }
+
+  setEndOfUtterance(ms: number): void {
+    this.vad.setEndOfUtterance(ms);
+  }
+
+  /**
+   * Appends a block of samples ending at `time` (ms) and returns any frames it completed.
+   */
+  push(samples: Float32Array, time: number): VoiceFeatureFrame[] {
+    const frames: VoiceFeatureFrame[] = [];
+    const msPerSample = 1000 / this.sampleRate;
+
+    for (let i = 0; i < samples.length; i++) {
+      this.ring[this.writeIndex] = samples[i];
+      this.writeIndex = (this.writeIndex + 1) % this.ring.length;
+      if (this.filled < this.ring.length) this.filled++;
+
+      this.hopPower += samples[i] * samples[i];
+      if (++this.sinceHop === this.hopSize) {
+        const frameTime = time - (samples.length - 1 - i) * msPerSample;
+        frames.push(this.completeHop(frameTime));
+      }
+    }
+
+    return frames;
+  }
+
+  reset(): void {
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.sinceHop = 0;
+    this.hopPower = 0;
+    this.lastAnalysisAt = -Infinity;
+    this.ring.fill(0);
+    this.vad.reset();
+    this.spectrum.reset();
+  }
+
+  private completeHop(time: number): VoiceFeatureFrame {
+    const level = Math.sqrt(this.hopPower / this.hopSize);
+    this.hopPower = 0;
+    this.sinceHop = 0;
+
+    const vadFrame = this.vad.process(level, time);
+    const frame: VoiceFeatureFrame = { time, level, isSpeech: vadFrame.isSpeech };
+    if (vadFrame.speechStart !== undefined) frame.speechStart = vadFrame.speechStart;
+    if (vadFrame.speechEnd) frame.speechEnd = vadFrame.speechEnd;
+
+    const windowReady = this.filled === this.ring.length;
+    if (vadFrame.isSpeech && windowReady && time - this.lastAnalysisAt >= this.analysisHopMs) {
+      this.lastAnalysisAt = time;
+      frame.features = this.analyzeWindow();
+    }
+
+    return frame;
+  }
+
+  private analyzeWindow(): VoiceFeatures {
+    // Oldest sample first
+    const tail = this.ring.subarray(this.writeIndex);
+    this.window.set(tail);
+    this.window.set(this.ring.subarray(0, this.writeIndex), tail.length);
+
+    const estimate = this.pitchTracker.detect(this.window, this.sampleRate);
+
+    let power = 0;
+    for (let i = 0; i < this.window.length; i++) power += this.window[i] * this.window[i];
+
+    return {
+      pitch: estimate.frequency,
+      voicing: estimate.probability,
+      volume: Math.sqrt(power / this.window.length),
+      energy: this.spectrum.energy(this.window),
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { YinPitchTracker } from '@/lib/audio/pitch';
+
+const SAMPLE_RATE = 48000;
+const FRAME = 2048;
+
+function sine(frequency: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(FRAME);
+  for (let i = 0; i < FRAME; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+// Rosenberg glottal pulses: a rounded opening, a sharp closure, then a closed phase.
+// The closure makes the harmonics as strong as the fundamental, which is what trips naive trackers an octave off
+function glottalPulses(frequency: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(FRAME);
+  const period = SAMPLE_RATE / frequency;
+  const opening = 0.4 * period;
+  const closing = 0.16 * period;
+  for (let i = 0; i < FRAME; i++) {
+    const t = i % period;
+    if (t < opening) {
+      samples[i] = amplitude * 0.5 * (1 - Math.cos((Math.PI * t) / opening));
+    } else if (t < opening + closing) {
+      samples[i] = amplitude * Math.cos((Math.PI * (t - opening)) / (2 * closing));
+    }
+  }
+  // Remove DC, as the microphone path would
+  const mean = samples.reduce((sum, value) => sum + value, 0) / FRAME;
+  return samples.map((value) => value - mean);
+}
+
+// Deterministic so a failure can be reproduced
+function whiteNoise(amplitude: number, seed = 1): Float32Array {
+  const samples = new Float32Array(FRAME);
+  let state = seed;
+  for (let i = 0; i < FRAME; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    samples[i] = amplitude * ((state / 0xffffffff) * 2 - 1);
+  }
+  return samples;
+}
+
+describe('YinPitchTracker.detect', () => {
+  const tracker = new YinPitchTracker();
+
+  it.each([80, 100, 120, 165, 220, 300, 400])('tracks a %d Hz sine within 0.5%%', (frequency) => {
+    const estimate = tracker.detect(sine(frequency), SAMPLE_RATE);
+
+    expect(estimate.voiced).toBe(true);
+    expect(Math.abs(estimate.frequency - frequency) / frequency).toBeLessThan(0.005);
+    expect(estimate.probability).toBeGreaterThan(0.9);
+  });
+
+  it.each([90, 120, 180, 250])('finds the fundamental of a %d Hz glottal pulse train, not an octave', (frequency) => {
+    const estimate = tracker.detect(glottalPulses(frequency), SAMPLE_RATE);
+
+    expect(estimate.voiced).toBe(true);
+    expect(Math.abs(estimate.frequency - frequency) / frequency).toBeLessThan(0.02);
+  });
+
+  it('is unaffected by the amplitude of a voiced frame', () => {
+    const quiet = tracker.detect(sine(150, 0.05), SAMPLE_RATE);
+    const loud = tracker.detect(sine(150, 0.9), SAMPLE_RATE);
+
+    expect(quiet.frequency).toBeCloseTo(loud.frequency, 1);
+  });
+
+  it('reports silence as unvoiced', () => {
+    expect(tracker.detect(new Float32Array(FRAME), SAMPLE_RATE)).toEqual({
+      frequency: 0,
+      probability: 0,
+      voiced: false,
+    });
+  });
+
+  it('reports frames under the silence level as unvoiced', () => {
+    const estimate = tracker.detect(sine(200, 0.005), SAMPLE_RATE);
+
+    expect(estimate.voiced).toBe(false);
+    expect(estimate.frequency).toBe(0);
+  });
+
+  it('reports white noise as unvoiced with a low probability', () => {
+    for (const seed of [1, 2, 3]) {
+      const estimate = tracker.detect(whiteNoise(0.3, seed), SAMPLE_RATE);
+
+      expect(estimate.voiced).toBe(false);
+      expect(estimate.frequency).toBe(0);
+      expect(estimate.probability).toBeLessThan(0.5);
+    }
+  });
+
+  it('stays voiced on a sine with moderate noise', () => {
+    const noise = whiteNoise(0.05);
+    const samples = sine(180).map((value, i) => value + noise[i]);
+    const estimate = tracker.detect(samples, SAMPLE_RATE);
+
+    expect(estimate.voiced).toBe(true);
+    expect(Math.abs(estimate.frequency - 180) / 180).toBeLessThan(0.01);
+  });
+
+  it('ignores pitches outside the configured range', () => {
+    const narrow = new YinPitchTracker({ minFrequency: 150, maxFrequency: 500 });
+
+    expect(narrow.detect(sine(100), SAMPLE_RATE).voiced).toBe(false);
+  });
+});
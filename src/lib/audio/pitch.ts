@@ -0,0 +1,101 @@
+// YIN fundamental frequency estimation (de Cheveigné & Kawahara, 2002) with a voicing probability.
+
+export interface PitchTrackerConfig {
+  minFrequency?: number;
+  maxFrequency?: number;
+  // Cumulative mean normalized difference below which a period is accepted
+  threshold?: number;
+  // Frames quieter than this RMS are never voiced
+  silenceRms?: number;
+}
+
+export interface PitchEstimate {
+  // Hz, 0 when the frame is unvoiced
+  frequency: number;
+  // 1 - normalized difference at the chosen period, clamped to [0, 1]
+  probability: number;
+  voiced: boolean;
+}
+
+const UNVOICED: PitchEstimate = { frequency: 0, probability: 0, voiced: false };
+
+export class YinPitchTracker {
+  private config: Required<PitchTrackerConfig>;
+  private difference = new Float32Array(0);
+
+  constructor(config: PitchTrackerConfig = {}) {
+    this.config = {
+      minFrequency: config.minFrequency ?? 60,
+      maxFrequency: config.maxFrequency ?? 500,
+      threshold: config.threshold ?? 0.15,
+      silenceRms: config.silenceRms ?? 0.01,
+    };
+  }
+
+  detect(samples: Float32Array, sampleRate: number): PitchEstimate {
+    const { minFrequency, maxFrequency, threshold, silenceRms } = this.config;
+
+    let power = 0;
+    for (let i = 0; i < samples.length; i++) power += samples[i] * samples[i];
+    if (Math.sqrt(power / samples.length) < silenceRms) return UNVOICED;
+
+    const minTau = Math.max(2, Math.floor(sampleRate / maxFrequency));
+    const maxTau = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(samples.length / 2));
+    if (maxTau <= minTau) return UNVOICED;
+
+    const window = samples.length - maxTau;
+    if (this.difference.length < maxTau + 1) {
+      this.difference = new Float32Array(maxTau + 1);
+    }
+    const d = this.difference;
+
+    // Difference function, then cumulative mean normalization in place
+    d[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= maxTau; tau++) {
+      let sum = 0;
+      for (let i = 0; i < window; i++) {
+        const delta = samples[i] - samples[i + tau];
+        sum += delta * delta;
+      }
+      runningSum += sum;
+      d[tau] = runningSum === 0 ? 1 : (sum * tau) / runningSum;
+    }
+
+    // First dip under the threshold, followed down to its local minimum.
+    // Taking the first one rather than the global minimum is what avoids octave errors.
+    let tau = -1;
+    for (let t = minTau; t <= maxTau; t++) {
+      if (d[t] < threshold) {
+        while (t + 1 <= maxTau && d[t + 1] < d[t]) t++;
+        tau = t;
+        break;
+      }
+    }
+
+    if (tau === -1) {
+      let best = minTau;
+      for (let t = minTau + 1; t <= maxTau; t++) {
+        if (d[t] < d[best]) best = t;
+      }
+      return { frequency: 0, probability: clamp01(1 - d[best]), voiced: false };
+    }
+
+    return {
+      frequency: sampleRate / this.interpolate(tau, maxTau),
+      probability: clamp01(1 - d[tau]),
+      voiced: true,
+    };
+  }
+
+  // Parabolic interpolation around the chosen lag for sub-sample precision
+  private interpolate(tau: number, maxTau: number): number {
+    if (tau < 1 || tau >= maxTau) return tau;
+    const d = this.difference;
+    const [a, b, c] = [d[tau - 1], d[tau], d[tau + 1]];
+    const denominator = a + c - 2 * b;
+    return denominator === 0 ? tau : tau + (a - c) / (2 * denominator);
+  }
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
@@ -0,0 +1,105 @@
+// Magnitude spectrum computed the way AnalyserNode does (Blackman window, smoothed magnitudes,
+// dB range mapped to [0, 1]), so features match what getByteFrequencyData used to report.
+
+export interface SpectrumConfig {
+  smoothingTimeConstant?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+export class SpectrumAnalyzer {
+  readonly size: number;
+  private config: Required<SpectrumConfig>;
+  private window: Float32Array;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private smoothed: Float32Array;
+
+  constructor(size: number, config: SpectrumConfig = {}) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`Spectrum size must be a power of two, got ${size}`);
+    }
+
+    this.size = size;
+    this.config = {
+      smoothingTimeConstant: config.smoothingTimeConstant ?? 0.8,
+      minDecibels: config.minDecibels ?? -100,
+      maxDecibels: config.maxDecibels ?? -30,
+    };
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+    this.smoothed = new Float32Array(size / 2);
+
+    this.window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const x = (2 * Math.PI * i) / size;
+      this.window[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+    }
+  }
+
+  /**
+   * Mean normalized level across all bins, in [0, 1].
+   * `samples` must hold at least `size` values; the last `size` are used.
+   */
+  energy(samples: Float32Array): number {
+    const { smoothingTimeConstant, minDecibels, maxDecibels } = this.config;
+    const offset = samples.length - this.size;
+
+    for (let i = 0; i < this.size; i++) {
+      this.real[i] = samples[offset + i] * this.window[i];
+      this.imag[i] = 0;
+    }
+    this.fft();
+
+    let sum = 0;
+    for (let k = 0; k < this.smoothed.length; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / this.size;
+      this.smoothed[k] = smoothingTimeConstant * this.smoothed[k] + (1 - smoothingTimeConstant) * magnitude;
+      const db = 20 * Math.log10(Math.max(this.smoothed[k], 1e-12));
+      sum += Math.min(1, Math.max(0, (db - minDecibels) / (maxDecibels - minDecibels)));
+    }
+    return sum / this.smoothed.length;
+  }
+
+  reset(): void {
+    this.smoothed.fill(0);
+  }
+
+  // In-place iterative radix-2 FFT
+  private fft(): void {
+    const { real, imag, size } = this;
+
+    for (let i = 1, j = 0; i < size; i++) {
+      let bit = size >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const angle = (-2 * Math.PI) / length;
+      const wReal = Math.cos(angle);
+      const wImag = Math.sin(angle);
+      for (let start = 0; start < size; start += length) {
+        let curReal = 1;
+        let curImag = 0;
+        for (let k = 0; k < length / 2; k++) {
+          const a = start + k;
+          const b = a + length / 2;
+          const tReal = real[b] * curReal - imag[b] * curImag;
+          const tImag = real[b] * curImag + imag[b] * curReal;
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+          const nextReal = curReal * wReal - curImag * wImag;
+          curImag = curReal * wImag + curImag * wReal;
+          curReal = nextReal;
+        }
+      }
+    }
+  }
+}
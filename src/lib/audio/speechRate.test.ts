@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechRateEstimator } from '@/lib/audio/speechRate';
+
+const FRAME_MS = 10;
+
+// Speech envelope with one loudness peak per syllable, from `start` for `ms`
+function speak(estimator: SpeechRateEstimator, syllablesPerSecond: number, ms: number, start: number): number {
+  const period = 1000 / syllablesPerSecond;
+  let t = start;
+  for (; t < start + ms; t += FRAME_MS) {
+    const phase = ((t - start) % period) / period;
+    const level = 0.02 + 0.18 * Math.sin(Math.PI * phase) ** 2;
+    estimator.process(level, t, true);
+  }
+  return t;
+}
+
+function silence(estimator: SpeechRateEstimator, ms: number, start: number): number {
+  let t = start;
+  for (; t < start + ms; t += FRAME_MS) {
+    estimator.process(0.002, t, false);
+  }
+  return t;
+}
+
+describe('SpeechRateEstimator', () => {
+  it.each([3, 4.5, 6])('counts %d syllables per second from the envelope', (syllablesPerSecond) => {
+    const estimator = new SpeechRateEstimator();
+    let t = silence(estimator, 200, 0);
+    estimator.startUtterance(t);
+    t = speak(estimator, syllablesPerSecond, 4000, t);
+    t = silence(estimator, 200, t);
+    const rate = estimator.endUtterance(t)!;
+
+    expect(rate.syllablesPerSecond).toBeGreaterThan(syllablesPerSecond * 0.85);
+    expect(rate.syllablesPerSecond).toBeLessThan(syllablesPerSecond * 1.15);
+  });
+
+  it('ignores peaks shallower than dipDb', () => {
+    const estimator = new SpeechRateEstimator({ dipDb: 3 });
+    for (let t = 0; t < 2000; t += FRAME_MS) {
+      // About 1 dB of ripple
+      estimator.process(0.1 + 0.006 * Math.sin(t / 40), t, true);
+    }
+
+    expect(estimator.rate(5000, 2000).syllables).toBe(0);
+  });
+
+  it('reports no rate below minSpeechMs of speech', () => {
+    const estimator = new SpeechRateEstimator({ minSpeechMs: 300 });
+    estimator.startUtterance(0);
+    const t = speak(estimator, 5, 200, 0);
+    const rate = estimator.endUtterance(t)!;
+
+    expect(rate.syllablesPerSecond).toBe(0);
+    expect(rate.wordsPerMinute).toBeNull();
+  });
+
+  it('gives words per minute over speech time once a transcript arrives', () => {
+    const estimator = new SpeechRateEstimator();
+    estimator.startUtterance(0);
+    let t = speak(estimator, 4, 3000, 0);
+    // Pauses don't count as speech time
+    t = silence(estimator, 1000, t);
+    estimator.endUtterance(t);
+    // Recognizers finalize after the VAD: the count goes to the finished utterance
+    estimator.setTranscriptWords(7);
+
+    const rate = estimator.utteranceRate()!;
+    expect(rate.words).toBe(7);
+    expect(rate.wordsPerMinute).toBeCloseTo(7 / (rate.speechMs / 60000), 6);
+    expect(rate.speechMs).toBeLessThan(3100);
+  });
+
+  it('only counts the rolling window', () => {
+    const estimator = new SpeechRateEstimator();
+    let t = speak(estimator, 6, 3000, 0);
+    t = silence(estimator, 10000, t);
+    t = speak(estimator, 3, 3000, t);
+
+    const recent = estimator.rate(3000, t);
+    expect(recent.syllablesPerSecond).toBeGreaterThan(2.5);
+    expect(recent.syllablesPerSecond).toBeLessThan(3.5);
+    expect(recent.wordsPerMinute).toBeNull();
+  });
+
+  it('forgets everything on reset()', () => {
+    const estimator = new SpeechRateEstimator();
+    estimator.startUtterance(0);
+    const t = speak(estimator, 4, 2000, 0);
+    estimator.reset();
+
+    expect(estimator.utteranceRate()).toBeNull();
+    expect(estimator.rate(5000, t).syllables).toBe(0);
+  });
+});
@@ -0,0 +1,193 @@
+// Speech rate from the energy envelope (syllable nuclei) and, when available, transcript word counts.
+//
+// A syllable nucleus is a peak in the dB envelope during speech that rises at least dipDb above the
+// preceding valley and falls at least dipDb below it afterwards (after de Jong & Wempe, 2009).
+
+export interface SpeechRateConfig {
+  // Minimum rise and fall around an envelope peak, in dB
+  dipDb?: number;
+  // Peaks closer than this are merged, capping the rate at 1000 / minNucleusGapMs syllables per second
+  minNucleusGapMs?: number;
+  // Below this much speech a rate is too noisy to report
+  minSpeechMs?: number;
+  // Default span of rolling rates
+  windowMs?: number;
+  // History kept for rolling rates
+  historyMs?: number;
+}
+
+export interface SpeechRate {
+  syllablesPerSecond: number;
+  // Null when no transcript covered the span
+  wordsPerMinute: number | null;
+  syllables: number;
+  words: number;
+  speechMs: number;
+}
+
+interface Utterance {
+  start: number;
+  end: number | null;
+  speechMs: number;
+  syllables: number;
+  words: number | null;
+}
+
+const toDb = (level: number) => 20 * Math.log10(Math.max(level, 1e-6));
+
+export class SpeechRateEstimator {
+  private config: Required<SpeechRateConfig>;
+
+  private nuclei: number[] = [];
+  private speechFrames: { timestamp: number; ms: number }[] = [];
+  private utterances: Utterance[] = [];
+
+  private lastFrameAt: number | null = null;
+  private valleyDb = Infinity;
+  private peak: { db: number; timestamp: number } | null = null;
+  private lastNucleusAt = -Infinity;
+
+  constructor(config: SpeechRateConfig = {}) {
+    this.config = {
+      dipDb: config.dipDb ?? 3,
+      minNucleusGapMs: config.minNucleusGapMs ?? 100,
+      minSpeechMs: config.minSpeechMs ?? 300,
+      windowMs: config.windowMs ?? 5000,
+      historyMs: config.historyMs ?? 60000,
+    };
+  }
+
+  /**
+   * Feeds one envelope sample (RMS level). Only frames the VAD marks as speech can hold nuclei.
+   */
+  process(level: number, timestamp: number, isSpeech: boolean): void {
+    const frameMs = this.lastFrameAt === null ? 0 : timestamp - this.lastFrameAt;
+    this.lastFrameAt = timestamp;
+    const db = toDb(level);
+    const { dipDb } = this.config;
+
+    if (!isSpeech) {
+      // Dropping out of speech is the fall after the last peak
+      if (this.peak && this.peak.db - db >= dipDb) this.addNucleus(this.peak.timestamp);
+      this.peak = null;
+      this.valleyDb = db;
+      this.prune(timestamp);
+      return;
+    }
+
+    this.speechFrames.push({ timestamp, ms: frameMs });
+    const live = this.liveUtterance();
+    if (live) live.speechMs += frameMs;
+
+    if (!this.peak) {
+      if (db - this.valleyDb >= dipDb) {
+        this.peak = { db, timestamp };
+      } else {
+        this.valleyDb = Math.min(this.valleyDb, db);
+      }
+    } else if (db > this.peak.db) {
+      this.peak = { db, timestamp };
+    } else if (this.peak.db - db >= dipDb) {
+      this.addNucleus(this.peak.timestamp);
+      this.peak = null;
+      this.valleyDb = db;
+    }
+
+    this.prune(timestamp);
+  }
+
+  startUtterance(timestamp: number): void {
+    this.utterances.push({ start: timestamp, end: null, speechMs: 0, syllables: 0, words: null });
+  }
+
+  endUtterance(timestamp: number): SpeechRate | null {
+    const live = this.liveUtterance();
+    if (!live) return null;
+    live.end = timestamp;
+    return this.toRate(live.syllables, live.words, live.speechMs);
+  }
+
+  /**
+   * Word count of the latest transcript. Recognizers often finalize after the VAD has ended
+   * the utterance, so with no utterance in progress the count goes to the last one.
+   */
+  setTranscriptWords(words: number): void {
+    const target = this.utterances[this.utterances.length - 1];
+    if (target) target.words = words;
+  }
+
+  // Rate of the utterance in progress, or the last finished one
+  utteranceRate(): SpeechRate | null {
+    const last = this.utterances[this.utterances.length - 1];
+    return last ? this.toRate(last.syllables, last.words, last.speechMs) : null;
+  }
+
+  /**
+   * Rate over the last windowMs. Syllables and speech time are counted per frame; words come
+   * from the utterances overlapping the window, over their own speech time.
+   */
+  rate(windowMs = this.config.windowMs, now = Date.now()): SpeechRate {
+    const from = now - windowMs;
+
+    const syllables = this.nuclei.filter((t) => t >= from).length;
+    const speechMs = this.speechFrames.reduce((sum, f) => (f.timestamp >= from ? sum + f.ms : sum), 0);
+
+    let words = 0;
+    let wordSpeechMs = 0;
+    let transcribed = false;
+    for (const u of this.utterances) {
+      if ((u.end ?? now) < from || u.words === null) continue;
+      transcribed = true;
+      words += u.words;
+      wordSpeechMs += u.speechMs;
+    }
+
+    const rate = this.toRate(syllables, null, speechMs);
+    if (transcribed && wordSpeechMs >= this.config.minSpeechMs) {
+      rate.words = words;
+      rate.wordsPerMinute = words / (wordSpeechMs / 60000);
+    }
+    return rate;
+  }
+
+  reset(): void {
+    this.nuclei = [];
+    this.speechFrames = [];
+    this.utterances = [];
+    this.lastFrameAt = null;
+    this.valleyDb = Infinity;
+    this.peak = null;
+    this.lastNucleusAt = -Infinity;
+  }
+
+  private liveUtterance(): Utterance | null {
+    const last = this.utterances[this.utterances.length - 1];
+    return last && last.end === null ? last : null;
+  }
+
+  private addNucleus(timestamp: number): void {
+    if (timestamp - this.lastNucleusAt < this.config.minNucleusGapMs) return;
+    this.lastNucleusAt = timestamp;
+    this.nuclei.push(timestamp);
+    const live = this.liveUtterance();
+    if (live) live.syllables++;
+  }
+
+  private toRate(syllables: number, words: number | null, speechMs: number): SpeechRate {
+    const enough = speechMs >= this.config.minSpeechMs;
+    return {
+      syllablesPerSecond: enough ? syllables / (speechMs / 1000) : 0,
+      wordsPerMinute: enough && words !== null ? words / (speechMs / 60000) : null,
+      syllables,
+      words: words ?? 0,
+      speechMs,
+    };
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.config.historyMs;
+    while (this.nuclei.length > 0 && this.nuclei[0] < cutoff) this.nuclei.shift();
+    while (this.speechFrames.length > 0 && this.speechFrames[0].timestamp < cutoff) this.speechFrames.shift();
+    while (this.utterances.length > 1 && (this.utterances[0].end ?? now) < cutoff) this.utterances.shift();
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector, type VadFrame } from '@/lib/audio/vad';
+
+const FRAME_MS = 10;
+const NOISE = 0.002;
+const SPEECH = 0.1;
+
+// Feeds `level` for `ms`, continuing from `start`; returns the frames and the next timestamp
+function feed(vad: VoiceActivityDetector, level: number, ms: number, start: number) {
+  const frames: VadFrame[] = [];
+  let t = start;
+  for (; t < start + ms; t += FRAME_MS) {
+    frames.push(vad.process(level, t));
+  }
+  return { frames, next: t };
+}
+
+describe('VoiceActivityDetector', () => {
+  it('starts speech after minSpeechMs of activity, timestamped at its onset', () => {
+    const vad = new VoiceActivityDetector();
+    const onset = feed(vad, NOISE, 500, 0).next;
+    const { frames } = feed(vad, SPEECH, 300, onset);
+
+    const started = frames.filter((f) => f.speechStart !== undefined);
+    expect(started).toHaveLength(1);
+    expect(started[0].speechStart).toBe(onset);
+    expect(frames.findIndex((f) => f.isSpeech)).toBe(120 / FRAME_MS);
+    expect(vad.currentState).toBe('speech');
+  });
+
+  it('ignores clicks shorter than minSpeechMs', () => {
+    const vad = new VoiceActivityDetector();
+    const t = feed(vad, NOISE, 500, 0).next;
+    const { frames, next } = feed(vad, SPEECH, 50, t);
+    feed(vad, NOISE, 500, next);
+
+    expect(frames.some((f) => f.isSpeech)).toBe(false);
+    expect(vad.currentState).toBe('silence');
+  });
+
+  it('bridges short dips inside a word with the hangover', () => {
+    const vad = new VoiceActivityDetector();
+    let t = feed(vad, NOISE, 500, 0).next;
+    t = feed(vad, SPEECH, 300, t).next;
+    const { frames, next } = feed(vad, NOISE, 100, t);
+    feed(vad, SPEECH, 100, next);
+
+    expect(frames.every((f) => f.isSpeech)).toBe(true);
+    expect(vad.currentState).toBe('speech');
+  });
+
+  it('ends the utterance after endOfUtteranceMs of silence, keeping pauses inside it', () => {
+    const vad = new VoiceActivityDetector({ endOfUtteranceMs: 800 });
+    let t = feed(vad, NOISE, 500, 0).next;
+    const start = t;
+    t = feed(vad, SPEECH, 400, t).next;
+    // A pause shorter than the end of utterance: same segment
+    t = feed(vad, NOISE, 500, t).next;
+    t = feed(vad, SPEECH, 400, t).next;
+    const lastSpeech = t - FRAME_MS;
+    const { frames } = feed(vad, NOISE, 1500, t);
+
+    const ends = frames.filter((f) => f.speechEnd);
+    expect(ends).toHaveLength(1);
+    expect(ends[0].speechEnd!.start).toBe(start);
+    expect(ends[0].speechEnd!.end).toBe(lastSpeech);
+    // Both words plus their hangovers, not the pause between them
+    expect(ends[0].speechEnd!.speechMs).toBeGreaterThanOrEqual(700);
+    expect(ends[0].speechEnd!.speechMs).toBeLessThan(1400);
+    expect(vad.currentState).toBe('silence');
+  });
+
+  it('follows the end of utterance set at runtime', () => {
+    const vad = new VoiceActivityDetector({ endOfUtteranceMs: 2000 });
+    vad.setEndOfUtterance(400);
+    let t = feed(vad, NOISE, 500, 0).next;
+    t = feed(vad, SPEECH, 300, t).next;
+    const { frames } = feed(vad, NOISE, 700, t);
+
+    expect(frames.some((f) => f.speechEnd)).toBe(true);
+  });
+
+  it('adapts its threshold to background noise', () => {
+    const vad = new VoiceActivityDetector();
+    // Steady fan noise well above minThreshold
+    const { frames } = feed(vad, 0.05, 2000, 0);
+
+    expect(frames.some((f) => f.isSpeech)).toBe(false);
+    expect(frames[frames.length - 1].threshold).toBeGreaterThan(0.1);
+  });
+
+  it('does not raise the noise floor while speech goes on', () => {
+    const vad = new VoiceActivityDetector();
+    let t = feed(vad, NOISE, 500, 0).next;
+    // Past minSpeechMs, so speech has started
+    const { frames, next } = feed(vad, SPEECH, 200, t);
+    const floor = frames[frames.length - 1].noiseFloor;
+    t = feed(vad, SPEECH, 3000, next).next;
+
+    expect(vad.process(SPEECH, t).noiseFloor).toBeCloseTo(floor, 6);
+    expect(vad.currentState).toBe('speech');
+  });
+
+  it('starts over after reset()', () => {
+    const vad = new VoiceActivityDetector();
+    const t = feed(vad, NOISE, 500, 0).next;
+    feed(vad, SPEECH, 300, t);
+    vad.reset();
+
+    expect(vad.currentState).toBe('silence');
+    expect(vad.isInUtterance()).toBe(false);
+  });
+});
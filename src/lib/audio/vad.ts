@@ -0,0 +1,157 @@
+// Energy-based voice activity detection with an adaptive noise floor.
+//
+// Frame state machine:
+//   silence --(above threshold for minSpeechMs)--> speech
+//   speech  --(below threshold)--> hangover
+//   hangover --(above threshold)--> speech
+//   hangover --(below threshold for hangoverMs)--> pause
+//   pause   --(above threshold for minSpeechMs)--> speech
+//   pause   --(silent for endOfUtteranceMs since last speech)--> silence, emits speechEnd
+
+export type VadState = 'silence' | 'speech' | 'hangover' | 'pause';
+
+export interface VadConfig {
+  // Level must exceed noiseFloor * speechRatio (and minThreshold) to count as speech
+  speechRatio?: number;
+  minThreshold?: number;
+  // Sustained activity needed before speech starts, to ignore clicks and pops
+  minSpeechMs?: number;
+  // Short dips below threshold inside a word still count as speech frames
+  hangoverMs?: number;
+  // Silence after the last speech frame that ends the utterance
+  endOfUtteranceMs?: number;
+  // Noise floor adaptation per frame: fast when the level drops, slow when it rises
+  floorAttack?: number;
+  floorRelease?: number;
+}
+
+export interface VadSegment {
+  start: number;
+  end: number;
+  // Time spent in speech frames, excluding pauses inside the utterance
+  speechMs: number;
+}
+
+export interface VadFrame {
+  state: VadState;
+  isSpeech: boolean;
+  level: number;
+  noiseFloor: number;
+  threshold: number;
+  speechStart?: number;
+  speechEnd?: VadSegment;
+}
+
+export class VoiceActivityDetector {
+  private config: Required<VadConfig>;
+  private state: VadState = 'silence';
+  private noiseFloor: number | null = null;
+  private candidateSince: number | null = null;
+  private lastSpeechAt = 0;
+  private lastFrameAt: number | null = null;
+  private segmentStart = 0;
+  private speechMs = 0;
+
+  constructor(config: VadConfig = {}) {
+    this.config = {
+      speechRatio: config.speechRatio ?? 3,
+      minThreshold: config.minThreshold ?? 0.01,
+      minSpeechMs: config.minSpeechMs ?? 120,
+      hangoverMs: config.hangoverMs ?? 250,
+      endOfUtteranceMs: config.endOfUtteranceMs ?? 900,
+      floorAttack: config.floorAttack ?? 0.2,
+      floorRelease: config.floorRelease ?? 0.01,
+    };
+  }
+
+  get currentState(): VadState {
+    return this.state;
+  }
+
+  isInUtterance(): boolean {
+    return this.state !== 'silence';
+  }
+
+  setEndOfUtterance(ms: number): void {
+    this.config.endOfUtteranceMs = ms;
+  }
+
+  process(level: number, timestamp: number): VadFrame {
+    const frameMs = this.lastFrameAt === null ? 0 : timestamp - this.lastFrameAt;
+    this.lastFrameAt = timestamp;
+
+    if (this.noiseFloor === null) {
+      this.noiseFloor = level;
+    }
+
+    const threshold = Math.max(this.noiseFloor * this.config.speechRatio, this.config.minThreshold);
+    const active = level > threshold;
+    const frame: VadFrame = {
+      state: this.state,
+      isSpeech: false,
+      level,
+      noiseFloor: this.noiseFloor,
+      threshold,
+    };
+
+    switch (this.state) {
+      case 'silence':
+      case 'pause':
+        if (active) {
+          this.candidateSince ??= timestamp;
+          if (timestamp - this.candidateSince >= this.config.minSpeechMs) {
+            if (this.state === 'silence') {
+              this.segmentStart = this.candidateSince;
+              this.speechMs = 0;
+              frame.speechStart = this.candidateSince;
+            }
+            this.state = 'speech';
+            this.candidateSince = null;
+          }
+        } else {
+          this.candidateSince = null;
+          if (this.state === 'pause' && timestamp - this.lastSpeechAt >= this.config.endOfUtteranceMs) {
+            frame.speechEnd = { start: this.segmentStart, end: this.lastSpeechAt, speechMs: this.speechMs };
+            this.state = 'silence';
+          }
+        }
+        break;
+
+      case 'speech':
+      case 'hangover':
+        if (active) {
+          this.state = 'speech';
+        } else if (this.state === 'speech') {
+          this.state = 'hangover';
+        } else if (timestamp - this.lastSpeechAt >= this.config.hangoverMs) {
+          this.state = 'pause';
+        }
+        break;
+    }
+
+    frame.isSpeech = this.state === 'speech' || this.state === 'hangover';
+    if (frame.isSpeech) {
+      this.speechMs += frameMs;
+      if (active) this.lastSpeechAt = timestamp;
+    }
+
+    // Only learn the floor from non-speech frames, so loud speech doesn't raise it
+    if (!frame.isSpeech) {
+      const rate = level < this.noiseFloor ? this.config.floorAttack : this.config.floorRelease;
+      this.noiseFloor += rate * (level - this.noiseFloor);
+    }
+
+    frame.state = this.state;
+    return frame;
+  }
+
+  reset(): void {
+    this.state = 'silence';
+    this.noiseFloor = null;
+    this.candidateSince = null;
+    this.lastSpeechAt = 0;
+    this.lastFrameAt = null;
+    this.segmentStart = 0;
+    this.speechMs = 0;
+  }
+}
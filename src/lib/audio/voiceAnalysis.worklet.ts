@@ -0,0 +1,64 @@
+// AudioWorkletProcessor running VoiceFeatureExtractor on the audio thread.
+// Loaded by VoiceAnalysisService through `audioWorklet.addModule`.
+
+import {
+  VOICE_WORKLET_NAME,
+  VoiceFeatureExtractor,
+  type VoiceFeatureConfig,
+  type VoiceWorkletCommand,
+  type VoiceWorkletMessage,
+} from '@/lib/audio/features';
+
+// AudioWorkletGlobalScope isn't part of lib.dom
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+class VoiceAnalysisProcessor extends AudioWorkletProcessor {
+  private extractor: VoiceFeatureExtractor;
+  private listening = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const config = (options.processorOptions ?? {}) as Omit<VoiceFeatureConfig, 'sampleRate'>;
+    this.extractor = new VoiceFeatureExtractor({ ...config, sampleRate });
+
+    this.port.onmessage = (event: MessageEvent<VoiceWorkletCommand>) => {
+      const command = event.data;
+      switch (command.type) {
+        case 'listen':
+          this.listening = command.enabled;
+          break;
+        case 'reset':
+          this.extractor.reset();
+          break;
+        case 'endOfUtterance':
+          this.extractor.setEndOfUtterance(command.ms);
+          break;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // First channel only: the mic stream is mono for our purposes
+    const samples = inputs[0]?.[0];
+    if (!this.listening || !samples) return true;
+
+    const time = (currentTime + samples.length / sampleRate) * 1000;
+    const frames = this.extractor.push(samples, time);
+    if (frames.length > 0) {
+      const message: VoiceWorkletMessage = { type: 'frames', frames };
+      this.port.postMessage(message);
+    }
+    return true;
+  }
+}
+
+registerProcessor(VOICE_WORKLET_NAME, VoiceAnalysisProcessor);
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '@/hooks/useMultimodalAI';
+import type { EmotionWindowSummary, FacialWindowSummary, VoiceWindowSummary } from '@/lib/emotion/timeline';
+import { emptyDistribution } from '@/lib/emotion/taxonomy';
+import {
+  buildContextWindow,
+  compactEmotionSummary,
+  estimateTokens,
+  toHistoryEntry,
+  type ConversationSummary,
+} from '@/lib/chat/context';
+
+function message(index: number, content: string, overrides: Partial<Message> = {}): Message {
+  return {
+    id: `msg_${index}`,
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content,
+    timestamp: 1000 * (index + 1),
+    ...overrides,
+  };
+}
+
+// 40 characters, about 10 tokens
+const TEXT = 'The quick brown fox jumps over the lazy.';
+
+function conversation(count: number): Message[] {
+  return Array.from({ length: count }, (_, i) => message(i, TEXT));
+}
+
+const SAD_FACE_NEUTRAL_VOICE: EmotionWindowSummary = {
+  from: 0,
+  to: 1000,
+  facial: { dominant: 'sad', mean: { ...emptyDistribution(), sad: 0.62, neutral: 0.38 } } as FacialWindowSummary,
+  voice: {
+    dominant: 'neutral',
+    mean: { happy: 0, sad: 0.45, angry: 0, fearful: 0, neutral: 0.55 },
+  } as VoiceWindowSummary,
+};
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens(TEXT)).toBe(10);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('compactEmotionSummary', () => {
+  it('describes both modalities with their share', () => {
+    const summary = compactEmotionSummary(
+      message(0, 'hi', { emotionContext: { facial: null, voice: null, summary: SAD_FACE_NEUTRAL_VOICE } })
+    );
+
+    expect(summary).toBe('face: sad 62%, voice: neutral 55%');
+  });
+
+  it('is null without readings', () => {
+    expect(compactEmotionSummary(message(0, 'hi'))).toBeNull();
+    expect(
+      compactEmotionSummary(
+        message(0, 'hi', { emotionContext: { facial: null, voice: null, summary: { from: 0, to: 1, facial: null, voice: null } } })
+      )
+    ).toBeNull();
+  });
+});
+
+describe('toHistoryEntry', () => {
+  it('annotates user turns with their emotion and cut-off replies', () => {
+    const user = message(0, 'I lost my keys', {
+      emotionContext: { facial: null, voice: null, summary: SAD_FACE_NEUTRAL_VOICE },
+    });
+    const reply = message(1, 'Oh no, where did you', { interrupted: true });
+
+    expect(toHistoryEntry(user)).toEqual({
+      role: 'user',
+      content: 'I lost my keys [face: sad 62%, voice: neutral 55%]',
+    });
+    expect(toHistoryEntry(reply)).toEqual({
+      role: 'assistant',
+      content: 'Oh no, where did you [interrupted by the user]',
+    });
+  });
+});
+
+describe('buildContextWindow', () => {
+  it('sends the whole conversation when it fits', () => {
+    const messages = conversation(6);
+    const context = buildContextWindow(messages, null);
+
+    expect(context.history).toHaveLength(6);
+    expect(context.summary).toBeNull();
+    expect(context.unsummarized).toEqual([]);
+    expect(context.tokens).toBe(6 * 14);
+  });
+
+  it('keeps the newest turns within the budget and hands back the rest', () => {
+    const messages = conversation(20);
+    // 14 tokens per message with its overhead: 5 fit in 75
+    const context = buildContextWindow(messages, null, { budgetTokens: 75 });
+
+    expect(context.history).toHaveLength(5);
+    expect(context.history[0]).toEqual(toHistoryEntry(messages[15]));
+    expect(context.unsummarized).toEqual(messages.slice(0, 15));
+    expect(context.tokens).toBeLessThanOrEqual(75);
+  });
+
+  it('always keeps minMessages, even over budget', () => {
+    const messages = [message(0, 'x'.repeat(4000)), message(1, 'y'.repeat(4000))];
+    const context = buildContextWindow(messages, null, { budgetTokens: 100, minMessages: 2 });
+
+    expect(context.history).toHaveLength(2);
+    expect(context.tokens).toBeGreaterThan(100);
+  });
+
+  it('sends the summary instead of the turns it covers', () => {
+    const messages = conversation(10);
+    const summary: ConversationSummary = { text: 'Earlier: small talk.', throughTimestamp: messages[5].timestamp };
+    const context = buildContextWindow(messages, summary, { budgetTokens: 3000 });
+
+    expect(context.summary).toBe('Earlier: small talk.');
+    expect(context.history).toEqual(messages.slice(6).map(toHistoryEntry));
+    expect(context.unsummarized).toEqual([]);
+  });
+
+  it('reports turns that are neither sent nor summarized yet', () => {
+    const messages = conversation(20);
+    const summary: ConversationSummary = { text: 'Earlier.', throughTimestamp: messages[3].timestamp };
+    const context = buildContextWindow(messages, summary, { budgetTokens: 75 });
+
+    const firstSent = messages.length - context.history.length;
+    expect(context.unsummarized).toEqual(messages.slice(4, firstSent));
+    // The summary counts against the budget
+    expect(context.history.length).toBeLessThan(5);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Message } from '@/hooks/useMultimodalAI';
+import type { ChatHistoryEntry } from '@/lib/chat/transport';
+
+// Picks the history sent with each turn. Recent turns are sent verbatim, newest first, until the
+// token budget is spent; turns before that are carried by a rolling summary that chat-ai writes
+// and that is stored on the conversation.
+
+export interface ConversationSummary {
+  text: string;
+  // Timestamp of the newest message the summary covers
+  throughTimestamp: number;
+}
+
+export interface ContextWindowConfig {
+  // Estimated tokens for the history plus the summary
+  budgetTokens?: number;
+  // Never send fewer recent messages than this, even over budget
+  minMessages?: number;
+}
+
+export interface ContextWindow {
+  history: ChatHistoryEntry[];
+  summary: string | null;
+  // Older messages left out of `history` and not yet covered by the summary
+  unsummarized: Message[];
+  tokens: number;
+}
+
+// Rough count for budgeting: about 4 characters per token for English and French, plus framing
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * One-line emotion digest of a user turn, e.g. "face: sad 62%, voice: neutral 55%".
+ */
+export function compactEmotionSummary(message: Message): string | null {
+  const summary = message.emotionContext?.summary;
+  if (!summary) return null;
+
+  const parts: string[] = [];
+  if (summary.facial) {
+    const share = summary.facial.mean[summary.facial.dominant];
+    parts.push(`face: ${summary.facial.dominant} ${Math.round(share * 100)}%`);
+  }
+  if (summary.voice) {
+    const share = summary.voice.mean[summary.voice.dominant];
+    parts.push(`voice: ${summary.voice.dominant} ${Math.round(share * 100)}%`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+export function toHistoryEntry(message: Message): ChatHistoryEntry {
+  if (message.role === 'assistant') {
+    return { role: 'assistant', content: message.interrupted ? `${message.content} [interrupted by the user]` : message.content };
+  }
+  const emotion = compactEmotionSummary(message);
+  return { role: 'user', content: emotion ? `${message.content} [${emotion}]` : message.content };
+}
+
+export function buildContextWindow(
+  messages: Message[],
+  summary: ConversationSummary | null,
+  config: ContextWindowConfig = {}
+): ContextWindow {
+  const budget = config.budgetTokens ?? 3000;
+  const minMessages = config.minMessages ?? 2;
+
+  let tokens = summary ? estimateTokens(summary.text) + MESSAGE_OVERHEAD_TOKENS : 0;
+  const history: ChatHistoryEntry[] = [];
+  let start = messages.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const entry = toHistoryEntry(messages[i]);
+    const cost = estimateTokens(entry.content) + MESSAGE_OVERHEAD_TOKENS;
+    if (tokens + cost > budget && history.length >= minMessages) break;
+    // Covered by the summary: stop there rather than repeat it verbatim
+    if (summary && messages[i].timestamp <= summary.throughTimestamp && history.length >= minMessages) break;
+    history.unshift(entry);
+    tokens += cost;
+    start = i;
+  }
+
+  const older = messages.slice(0, start);
+  const unsummarized = summary ? older.filter((m) => m.timestamp > summary.throughTimestamp) : older;
+
+  return { history, summary: summary?.text ?? null, unsummarized, tokens };
+}
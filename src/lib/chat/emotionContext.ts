@@ -0,0 +1,39 @@
+import type { EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotionResult } from '@/services/VoiceAnalysisService';
+import type { EmotionWindowSummary } from '@/lib/emotion/timeline';
+
+// Shape sent to chat-ai: the utterance aggregate when available, else the latest instant
+export function buildEmotionContextPayload(
+  facial: EmotionResult | null,
+  voice: VoiceEmotionResult | null,
+  summary: EmotionWindowSummary
+) {
+  return {
+    facial: summary.facial
+      ? {
+          emotion: summary.facial.dominant,
+          confidence: summary.facial.mean[summary.facial.dominant],
+          distribution: summary.facial.mean,
+          peak: summary.facial.peak,
+          samples: summary.facial.samples,
+          engagement: summary.facial.meanEngagement ?? undefined,
+        }
+      : facial
+        ? { emotion: facial.dominant, confidence: facial.confidence, engagement: facial.engagement }
+        : null,
+    voice: summary.voice
+      ? {
+          emotion: summary.voice.dominant,
+          confidence: summary.voice.mean[summary.voice.dominant],
+          metrics: summary.voice.meanMetrics,
+          peak: summary.voice.peak,
+          samples: summary.voice.samples,
+        }
+      : voice
+        ? { emotion: voice.emotion, confidence: voice.confidence, metrics: voice.metrics }
+        : null,
+    window: { from: summary.from, to: summary.to },
+  };
+}
+
+export type EmotionContextPayload = ReturnType<typeof buildEmotionContextPayload>;
@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { EmotionContextPayload } from '@/lib/chat/emotionContext';
+import { MockChatTransport } from '@/lib/chat/mockTransport';
+import { isAbortError, withRetry } from '@/lib/chat/retry';
+import { ChatTransportError, type ChatReply, type ChatRequest } from '@/lib/chat/transport';
+
+// The real transport needs a configured Supabase client
+vi.mock('@/lib/chat/supabaseTransport', () => ({ SupabaseChatTransport: class {} }));
+
+const fast = () => new MockChatTransport({ latencyMs: 0, chunkDelayMs: 0 });
+
+function request(message: string, overrides: Partial<ChatRequest> = {}): ChatRequest {
+  const emotionContext: EmotionContextPayload = {
+    facial: { emotion: 'happy', confidence: 0.8, engagement: undefined },
+    voice: null,
+    window: { from: 0, to: 1000 },
+  };
+  return {
+    message,
+    emotionContext,
+    conversationHistory: [],
+    conversationSummary: null,
+    provider: 'claude',
+    model: 'mock-model',
+    stream: false,
+    ...overrides,
+  };
+}
+
+async function text(reply: ChatReply): Promise<string> {
+  if (reply.kind === 'text') return reply.content;
+  let content = '';
+  for await (const delta of reply.deltas) content += delta;
+  return content;
+}
+
+const signal = () => new AbortController().signal;
+
+describe('MockChatTransport', () => {
+  it('answers the same request the same way, naming the model and emotion', async () => {
+    const transport = fast();
+    const first = await text(await transport.send(request('I got the job'), signal()));
+
+    expect(await text(await transport.send(request('I got the job'), signal()))).toBe(first);
+    expect(first).toBe(transport.reply(request('I got the job')));
+    expect(first).toMatch(/\(mock mock-model, happy\)$/);
+  });
+
+  it('follows the voice reading over the face', () => {
+    const withVoice = request('hi');
+    withVoice.emotionContext = {
+      ...withVoice.emotionContext,
+      voice: {
+        emotion: 'sad',
+        confidence: 0.7,
+        metrics: {
+          pitch: 120,
+          voicing: 0.8,
+          pitchVariation: 5,
+          volume: 0.1,
+          volumeVariation: 0.01,
+          speechRate: 2.5,
+          wordsPerMinute: 90,
+          energy: 0.1,
+        },
+      },
+    };
+
+    expect(fast().reply(withVoice)).toMatch(/, sad\)$/);
+  });
+
+  it('streams word-sized chunks that add up to the reply', async () => {
+    const transport = fast();
+    const reply = await transport.send(request('Tell me more', { stream: true }), signal());
+
+    expect(reply.kind).toBe('stream');
+    const deltas: string[] = [];
+    if (reply.kind === 'stream') for await (const delta of reply.deltas) deltas.push(delta);
+    expect(deltas.length).toBeGreaterThan(3);
+    expect(deltas.join('')).toBe(transport.reply(request('Tell me more')));
+  });
+
+  it('fails permanently on #error', async () => {
+    const error = await fast()
+      .send(request('#error'), signal())
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ChatTransportError);
+    expect(error).toMatchObject({ retryable: false, status: 400 });
+  });
+
+  it('fails the first attempt of a #flaky message, so a retry gets through', async () => {
+    const transport = fast();
+    const error = await transport.send(request('#flaky'), signal()).catch((e: unknown) => e);
+    expect(error).toMatchObject({ retryable: true, status: 503 });
+
+    const reply = await withRetry((s) => transport.send(request('#flaky'), s), signal(), { baseDelayMs: 1 });
+    expect(reply.kind).toBe('text');
+  });
+
+  it('fails every Nth request with errorEvery', async () => {
+    const transport = new MockChatTransport({ latencyMs: 0, errorEvery: 2 });
+    const outcomes: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      outcomes.push(await transport.send(request('hi'), signal()).then(() => 'ok', () => 'failed'));
+    }
+
+    expect(outcomes).toEqual(['ok', 'failed', 'ok', 'failed']);
+  });
+
+  it('breaks a #cutoff stream halfway', async () => {
+    const reply = await fast().send(request('#cutoff', { stream: true }), signal());
+    const deltas: string[] = [];
+    const error = await (async () => {
+      if (reply.kind === 'stream') for await (const delta of reply.deltas) deltas.push(delta);
+    })().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(deltas.length).toBeGreaterThan(0);
+  });
+
+  it('waits longer on #slow, enough to hit a timeout', async () => {
+    const transport = new MockChatTransport({ latencyMs: 10 });
+    const error = await withRetry((s) => transport.send(request('#slow'), s), signal(), {
+      retries: 0,
+      timeoutMs: 30,
+    }).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ name: 'TimeoutError' });
+    await expect(
+      withRetry((s) => transport.send(request('quick'), s), signal(), { timeoutMs: 30 })
+    ).resolves.toBeTruthy();
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const pending = new MockChatTransport({ latencyMs: 1000 }).send(request('hi'), controller.signal);
+    controller.abort();
+
+    expect(isAbortError(await pending.catch((e: unknown) => e))).toBe(true);
+  });
+
+  it('summarizes the start of each user turn after the previous summary', async () => {
+    const summary = await fast().summarize(
+      {
+        previousSummary: 'Earlier.',
+        messages: [
+          { role: 'user', content: 'one two three four five six seven eight nine ten eleven twelve thirteen' },
+          { role: 'assistant', content: 'Reply' },
+          { role: 'user', content: 'Second turn' },
+        ],
+        provider: 'claude',
+        model: 'mock-model',
+      },
+      signal()
+    );
+
+    expect(summary).toBe(
+      'Earlier.\nThe user said: one two three four five six seven eight nine ten eleven twelve\nThe user said: Second turn'
+    );
+  });
+});
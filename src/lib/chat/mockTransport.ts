@@ -0,0 +1,180 @@
+import {
+  ChatTransportError,
+  type ChatReply,
+  type ChatRequest,
+  type ChatTransport,
+  type SummaryRequest,
+} from '@/lib/chat/transport';
+
+// Local stand-in for chat-ai. Replies depend only on the request (the message text and the
+// dominant emotion), so the same conversation always plays out the same way.
+//
+// Failures can be triggered from the message itself:
+//   "#error"   the request rejects with a permanent error (like a 400)
+//   "#flaky"   the first attempt for that message fails with a transient error (like a 503)
+//   "#slow"    the initial latency is multiplied by 5, enough to hit a short timeout
+//   "#cutoff"  the stream fails halfway through
+
+export interface MockChatConfig {
+  // Delay before the reply (or its first token) arrives
+  latencyMs?: number;
+  // Delay between streamed chunks
+  chunkDelayMs?: number;
+  // Fail every Nth request with a transient error (0 disables), on top of the triggers
+  errorEvery?: number;
+}
+
+type MockEmotion = 'happy' | 'sad' | 'angry' | 'fearful' | 'surprised' | 'disgusted' | 'neutral';
+
+const REPLIES: Record<MockEmotion, string[]> = {
+  happy: [
+    "That's wonderful to hear! What made it go so well?",
+    'I can hear the good mood in your voice. Tell me more about it.',
+  ],
+  sad: [
+    "That sounds hard. I'm here, take your time. What's weighing on you the most?",
+    "I'm sorry you're going through this. Would it help to talk it through?",
+  ],
+  angry: [
+    'That sounds really frustrating. What happened exactly?',
+    "I understand why that would upset you. Let's look at it together.",
+  ],
+  fearful: [
+    "It's okay to feel uneasy about this. What worries you the most?",
+    "Let's take it one step at a time. What's the first thing on your mind?",
+  ],
+  surprised: [
+    "Oh, that's unexpected! How did you find out?",
+    "That's quite a surprise. What do you make of it?",
+  ],
+  disgusted: [
+    "That sounds unpleasant. What bothered you the most about it?",
+    'I can see why that would put you off. What would you rather have happened?',
+  ],
+  neutral: [
+    'I see. Can you tell me a bit more about that?',
+    "Thanks for sharing. What would you like to talk about next?",
+  ],
+};
+
+const SLOW_FACTOR = 5;
+const SUMMARY_WORDS_PER_TURN = 12;
+
+// FNV-1a, to pick a reply variant deterministically from the message
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function abortError(): DOMException {
+  return new DOMException('The request was aborted', 'AbortError');
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Word-sized chunks, keeping the whitespace so they concatenate back to the text
+function chunk(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+// The voice reading wins when both are present, as it's what the mock's replies talk about
+function dominantEmotion(request: ChatRequest): MockEmotion {
+  const { facial, voice } = request.emotionContext;
+  return voice?.emotion ?? facial?.emotion ?? 'neutral';
+}
+
+export class MockChatTransport implements ChatTransport {
+  private config: Required<MockChatConfig>;
+  private requests = 0;
+  // Messages that already failed once under #flaky
+  private flaked = new Set<string>();
+
+  constructor(config: MockChatConfig = {}) {
+    this.config = {
+      latencyMs: config.latencyMs ?? 600,
+      chunkDelayMs: config.chunkDelayMs ?? 40,
+      errorEvery: config.errorEvery ?? 0,
+    };
+  }
+
+  // VITE_MOCK_CHAT_LATENCY_MS, VITE_MOCK_CHAT_CHUNK_DELAY_MS and VITE_MOCK_CHAT_ERROR_EVERY override the defaults
+  static fromEnv(): MockChatTransport {
+    const number = (value: string | undefined) => (value ? Number(value) : undefined);
+    return new MockChatTransport({
+      latencyMs: number(import.meta.env.VITE_MOCK_CHAT_LATENCY_MS),
+      chunkDelayMs: number(import.meta.env.VITE_MOCK_CHAT_CHUNK_DELAY_MS),
+      errorEvery: number(import.meta.env.VITE_MOCK_CHAT_ERROR_EVERY),
+    });
+  }
+
+  reply(request: ChatRequest): string {
+    const emotion = dominantEmotion(request);
+    const variants = REPLIES[emotion];
+    const text = variants[hash(request.message) % variants.length];
+    return `${text} (mock ${request.model}, ${emotion})`;
+  }
+
+  async send(request: ChatRequest, signal: AbortSignal): Promise<ChatReply> {
+    this.requests++;
+    const { message } = request;
+    const { latencyMs, chunkDelayMs, errorEvery } = this.config;
+
+    await sleep(message.includes('#slow') ? latencyMs * SLOW_FACTOR : latencyMs, signal);
+
+    if (message.includes('#error')) {
+      throw new ChatTransportError('Mock chat-ai error', false, 400);
+    }
+    if (message.includes('#flaky') && !this.flaked.has(message)) {
+      this.flaked.add(message);
+      throw new ChatTransportError('Mock chat-ai unavailable', true, 503);
+    }
+    if (errorEvery > 0 && this.requests % errorEvery === 0) {
+      throw new ChatTransportError('Mock chat-ai unavailable', true, 503);
+    }
+
+    const content = this.reply(request);
+    if (!request.stream) {
+      return { kind: 'text', content };
+    }
+
+    const chunks = chunk(content);
+    const cutoff = message.includes('#cutoff') ? Math.floor(chunks.length / 2) : -1;
+
+    async function* deltas(): AsyncGenerator<string> {
+      for (let i = 0; i < chunks.length; i++) {
+        if (i === cutoff) throw new Error('Mock chat-ai stream interrupted');
+        if (i > 0) await sleep(chunkDelayMs, signal);
+        yield chunks[i];
+      }
+    }
+
+    return { kind: 'stream', deltas: deltas() };
+  }
+
+  // Keeps the start of each user turn, so it's easy to see which turns were folded in
+  async summarize(request: SummaryRequest, signal: AbortSignal): Promise<string> {
+    await sleep(this.config.latencyMs, signal);
+
+    const points = request.messages
+      .filter((m) => m.role === 'user')
+      .map((m) => m.content.split(/\s+/).slice(0, SUMMARY_WORDS_PER_TURN).join(' '));
+    return [request.previousSummary, ...points.map((p) => `The user said: ${p}`)].filter(Boolean).join('\n');
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PERSONA_ID, PERSONA_PRESETS, buildSystemPrompt, findPersona, type Persona } from '@/lib/chat/personas';
+
+const CUSTOM: Persona = {
+  id: 'row-1',
+  name: 'Tutor',
+  description: 'Patient French tutor',
+  systemPrompt: '  You are a patient French tutor.  ',
+  tone: 'calm',
+  language: 'fr-FR',
+  emotionRules: {
+    // Out of label order, and one left blank
+    sad: 'Slow down and encourage.',
+    happy: 'Raise the difficulty a little.',
+    fearful: '   ',
+  },
+  isPreset: false,
+};
+
+describe('buildSystemPrompt', () => {
+  it('joins the instructions, tone, emotion rules and language as paragraphs', () => {
+    expect(buildSystemPrompt(CUSTOM)).toBe(
+      [
+        'You are a patient French tutor.',
+        'Keep a calm, slow, reassuring tone.',
+        "Adapt to the user's emotional state, as given in the emotion context:\n" +
+          '- When the user seems happy: Raise the difficulty a little.\n' +
+          '- When the user seems sad: Slow down and encourage.',
+        'Reply in the language with code fr-FR.',
+      ].join('\n\n')
+    );
+  });
+
+  it('names fearful as anxious, as the user sees it', () => {
+    const prompt = buildSystemPrompt({ ...CUSTOM, emotionRules: { fearful: 'Reassure.' } });
+
+    expect(prompt).toContain('- When the user seems anxious: Reassure.');
+  });
+
+  it('leaves out the rules and language sections when there are none', () => {
+    const prompt = buildSystemPrompt({ ...CUSTOM, emotionRules: {}, language: null });
+
+    expect(prompt).toBe('You are a patient French tutor.\n\nKeep a calm, slow, reassuring tone.');
+  });
+
+  it('skips an empty persona prompt instead of leaving a blank paragraph', () => {
+    expect(buildSystemPrompt({ ...CUSTOM, systemPrompt: ' ', emotionRules: {}, language: null })).toBe(
+      'Keep a calm, slow, reassuring tone.'
+    );
+  });
+
+  it('builds a prompt for every preset', () => {
+    for (const preset of PERSONA_PRESETS) {
+      expect(buildSystemPrompt(preset).startsWith(preset.systemPrompt)).toBe(true);
+    }
+  });
+});
+
+describe('findPersona', () => {
+  it('finds presets and custom personas by id', () => {
+    expect(findPersona('coach').id).toBe('coach');
+    expect(findPersona('row-1', [CUSTOM])).toBe(CUSTOM);
+  });
+
+  it('falls back to the default persona', () => {
+    expect(findPersona('deleted', [CUSTOM]).id).toBe(DEFAULT_PERSONA_ID);
+    expect(findPersona(null).id).toBe(DEFAULT_PERSONA_ID);
+  });
+});
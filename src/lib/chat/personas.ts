@@ -0,0 +1,131 @@
+import type { Emotion } from '@/services/FaceEmotionService';
+import { EMOTION_LABELS } from '@/lib/emotion/taxonomy';
+
+// Personas shape the assistant through the system prompt sent to chat-ai. Presets ship with the
+// app; user personas are stored in Supabase (see PersonaRepository) and use their row id.
+
+export type PersonaTone = 'warm' | 'calm' | 'direct' | 'playful' | 'professional';
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  tone: PersonaTone;
+  // BCP 47 tag for recognition and replies; null keeps the app's language
+  language: string | null;
+  // How to respond when the user shows an emotion
+  emotionRules: Partial<Record<Emotion, string>>;
+  // Presets can't be edited or deleted
+  isPreset: boolean;
+}
+
+export const TONE_LABELS: Record<PersonaTone, string> = {
+  warm: 'Warm',
+  calm: 'Calm',
+  direct: 'Direct',
+  playful: 'Playful',
+  professional: 'Professional',
+};
+
+const TONE_INSTRUCTIONS: Record<PersonaTone, string> = {
+  warm: 'Be warm and friendly, like someone who cares.',
+  calm: 'Keep a calm, slow, reassuring tone.',
+  direct: 'Be direct and concise; skip pleasantries.',
+  playful: 'Be light and playful, with a touch of humour when appropriate.',
+  professional: 'Stay professional and measured.',
+};
+
+const EMOTION_NAMES: Record<Emotion, string> = {
+  happy: 'happy',
+  sad: 'sad',
+  angry: 'angry',
+  fearful: 'anxious',
+  neutral: 'neutral',
+  surprised: 'surprised',
+  disgusted: 'disgusted',
+};
+
+export const PERSONA_PRESETS: readonly Persona[] = [
+  {
+    id: 'listener',
+    name: 'Listener',
+    description: 'Empathetic companion that mostly listens',
+    systemPrompt:
+      'You are an empathetic listener. Let the user lead, reflect back what you hear, and ask open questions. ' +
+      'Do not give advice unless asked.',
+    tone: 'warm',
+    language: null,
+    emotionRules: {
+      sad: 'Acknowledge the feeling before anything else and slow down.',
+      angry: 'Validate the frustration without taking sides or arguing.',
+      fearful: 'Reassure gently and help name what feels uncertain.',
+    },
+    isPreset: true,
+  },
+  {
+    id: 'coach',
+    name: 'Coach',
+    description: 'Helps turn goals into concrete next steps',
+    systemPrompt:
+      'You are a supportive personal coach. Help the user clarify goals, spot obstacles and commit to one ' +
+      'concrete next step. Keep replies short and end with a question.',
+    tone: 'direct',
+    language: null,
+    emotionRules: {
+      sad: 'Lower the pressure: suggest a smaller step and recognise the effort so far.',
+      fearful: 'Break the goal into something that feels safe to try today.',
+      happy: 'Build on the momentum and ask what made it work.',
+    },
+    isPreset: true,
+  },
+  {
+    id: 'interview',
+    name: 'Interview practice',
+    description: 'Mock job interviewer with feedback on delivery',
+    systemPrompt:
+      'You are a job interviewer running a practice interview. Ask one question at a time, follow up on vague ' +
+      'answers, and after each answer give one sentence of feedback on content and delivery.',
+    tone: 'professional',
+    language: null,
+    emotionRules: {
+      fearful: 'Point out that nerves are normal and suggest pausing to breathe before answering.',
+      neutral: 'If the delivery seems flat, suggest showing more enthusiasm.',
+      angry: 'Keep the tone neutral and move to a less confrontational question.',
+    },
+    isPreset: true,
+  },
+];
+
+export const DEFAULT_PERSONA_ID = 'listener';
+
+export function findPersona(id: string | null | undefined, custom: readonly Persona[] = []): Persona {
+  return (
+    PERSONA_PRESETS.find((p) => p.id === id) ??
+    custom.find((p) => p.id === id) ??
+    PERSONA_PRESETS.find((p) => p.id === DEFAULT_PERSONA_ID) ??
+    PERSONA_PRESETS[0]
+  );
+}
+
+/**
+ * Builds the system prompt for chat-ai: the persona's instructions, its tone, and its emotion rules,
+ * which refer to the emotion context sent with every turn.
+ */
+export function buildSystemPrompt(persona: Persona): string {
+  const parts = [persona.systemPrompt.trim(), TONE_INSTRUCTIONS[persona.tone]];
+
+  const rules = EMOTION_LABELS.flatMap((emotion) => {
+    const rule = persona.emotionRules[emotion]?.trim();
+    return rule ? [`- When the user seems ${EMOTION_NAMES[emotion]}: ${rule}`] : [];
+  });
+  if (rules.length > 0) {
+    parts.push(`Adapt to the user's emotional state, as given in the emotion context:\n${rules.join('\n')}`);
+  }
+
+  if (persona.language) {
+    parts.push(`Reply in the language with code ${persona.language}.`);
+  }
+
+  return parts.filter(Boolean).join('\n\n');
+}
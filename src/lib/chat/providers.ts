@@ -0,0 +1,76 @@
+// Chat providers and models chat-ai can route to. The edge function picks the upstream API
+// from `provider` and passes `model` through, so ids here must be valid for that API.
+
+export type AIProvider = 'claude' | 'openai';
+
+export interface ModelCapabilities {
+  // Replies can be streamed token by token
+  streaming: boolean;
+  // Accepts image input
+  vision: boolean;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  capabilities: ModelCapabilities;
+}
+
+export interface ProviderInfo {
+  id: AIProvider;
+  name: string;
+  models: readonly ModelInfo[];
+  defaultModel: string;
+}
+
+export interface ModelSelection {
+  provider: AIProvider;
+  model: string;
+}
+
+export const AI_PROVIDERS: readonly ProviderInfo[] = [
+  {
+    id: 'claude',
+    name: 'Anthropic',
+    models: [
+      // Optimal for empathetic conversation
+      { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', capabilities: { streaming: true, vision: true } },
+      { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', capabilities: { streaming: true, vision: true } },
+      { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5', capabilities: { streaming: true, vision: false } },
+    ],
+    defaultModel: 'claude-sonnet-4-20250514',
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    models: [
+      { id: 'gpt-4o', name: 'GPT-4o', capabilities: { streaming: true, vision: true } },
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini', capabilities: { streaming: true, vision: true } },
+      { id: 'gpt-4.1', name: 'GPT-4.1', capabilities: { streaming: true, vision: true } },
+    ],
+    defaultModel: 'gpt-4o',
+  },
+];
+
+export const DEFAULT_PROVIDER: AIProvider = 'claude';
+
+export function getProviderInfo(provider: AIProvider): ProviderInfo {
+  return AI_PROVIDERS.find((p) => p.id === provider) ?? AI_PROVIDERS[0];
+}
+
+/**
+ * Returns the given model of the provider, or the provider's default when the id is unknown
+ * (e.g. a stored choice for a model since removed from the registry).
+ */
+export function resolveModel(provider: AIProvider, modelId?: string | null): ModelInfo {
+  const info = getProviderInfo(provider);
+  return (
+    info.models.find((m) => m.id === modelId) ?? info.models.find((m) => m.id === info.defaultModel) ?? info.models[0]
+  );
+}
+
+// Validates a stored or user-supplied selection, falling back to defaults
+export function resolveSelection(provider?: string | null, model?: string | null): ModelSelection {
+  const info = AI_PROVIDERS.find((p) => p.id === provider) ?? getProviderInfo(DEFAULT_PROVIDER);
+  return { provider: info.id, model: resolveModel(info.id, model).id };
+}
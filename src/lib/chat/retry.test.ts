@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TimeoutError, isAbortError, isTransientError, withIdleTimeout, withRetry } from '@/lib/chat/retry';
+
+const transient = () => Object.assign(new Error('Service unavailable'), { retryable: true });
+const permanent = () => Object.assign(new Error('Bad request'), { retryable: false });
+
+// Never settles unless its signal aborts, like a hung request
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(new DOMException('The request was aborted', 'AbortError')));
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('isTransientError', () => {
+  it('retries timeouts, network failures and errors flagged retryable', () => {
+    expect(isTransientError(new TimeoutError(1000))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(transient())).toBe(true);
+  });
+
+  it('does not retry anything else', () => {
+    expect(isTransientError(permanent())).toBe(false);
+    expect(isTransientError(new Error('boom'))).toBe(false);
+    expect(isTransientError(new DOMException('aborted', 'AbortError'))).toBe(false);
+    expect(isTransientError('offline')).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  const fast = { baseDelayMs: 1, maxDelayMs: 5 };
+
+  it('resolves with the first successful attempt', async () => {
+    const attempt = vi.fn().mockResolvedValue('reply');
+
+    await expect(withRetry(attempt, new AbortController().signal, fast)).resolves.toBe('reply');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures with growing, capped delays', async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(transient())
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue('reply');
+    const onRetry = vi.fn();
+
+    await expect(
+      withRetry(attempt, new AbortController().signal, { retries: 2, baseDelayMs: 4, maxDelayMs: 6, onRetry })
+    ).resolves.toBe('reply');
+
+    expect(attempt).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    const [[first, , firstDelay], [second, , secondDelay]] = onRetry.mock.calls;
+    expect([first, second]).toEqual([1, 2]);
+    // 4ms then min(6, 8)ms, each ±20%
+    expect(firstDelay).toBeGreaterThanOrEqual(3.2);
+    expect(firstDelay).toBeLessThanOrEqual(4.8);
+    expect(secondDelay).toBeGreaterThanOrEqual(4.8);
+    expect(secondDelay).toBeLessThanOrEqual(7.2);
+  });
+
+  it('fails at once on a permanent error', async () => {
+    const attempt = vi.fn().mockRejectedValue(permanent());
+
+    await expect(withRetry(attempt, new AbortController().signal, fast)).rejects.toThrow('Bad request');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured retries with the last error', async () => {
+    const attempt = vi.fn().mockRejectedValue(transient());
+
+    await expect(withRetry(attempt, new AbortController().signal, { ...fast, retries: 3 })).rejects.toThrow(
+      'Service unavailable'
+    );
+    expect(attempt).toHaveBeenCalledTimes(4);
+  });
+
+  it('times out a hung attempt, aborts it and retries', async () => {
+    const signals: AbortSignal[] = [];
+    const attempt = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return signals.length === 1 ? hang(signal) : Promise.resolve('reply');
+    });
+
+    await expect(withRetry(attempt, new AbortController().signal, { ...fast, timeoutMs: 20 })).resolves.toBe('reply');
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('rejects with a TimeoutError once every attempt timed out', async () => {
+    const error = await withRetry(hang, new AbortController().signal, { ...fast, retries: 1, timeoutMs: 10 }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('stops without retrying when the caller aborts', async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn(hang);
+    const result = withRetry(attempt, controller.signal, fast);
+    controller.abort();
+
+    const error = await result.catch((e: unknown) => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when the caller aborts during the backoff', async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn().mockRejectedValue(transient());
+    const result = withRetry(attempt, controller.signal, { baseDelayMs: 10000 });
+    await sleep(5);
+    controller.abort();
+
+    const error = await result.catch((e: unknown) => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps forwarding the caller’s abort after success, so a stream can still be cancelled', async () => {
+    const controller = new AbortController();
+    let attemptSignal: AbortSignal | null = null;
+    await withRetry(
+      async (signal) => {
+        attemptSignal = signal;
+        return 'stream';
+      },
+      controller.signal,
+      fast
+    );
+    controller.abort();
+
+    expect(attemptSignal!.aborted).toBe(true);
+  });
+});
+
+describe('withIdleTimeout', () => {
+  async function* chunks(delays: number[]) {
+    for (const [i, delay] of delays.entries()) {
+      await sleep(delay);
+      yield i;
+    }
+  }
+
+  async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of source) items.push(item);
+    return items;
+  }
+
+  it('passes items through while they keep coming', async () => {
+    await expect(collect(withIdleTimeout(chunks([5, 5, 5]), 100))).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('fails a stream that stalls, after cancelling it', async () => {
+    const onTimeout = vi.fn();
+    const items: number[] = [];
+    const error = await (async () => {
+      for await (const item of withIdleTimeout(chunks([5, 5, 1000]), 30, onTimeout)) items.push(item);
+    })().catch((e: unknown) => e);
+
+    expect(items).toEqual([0, 1]);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('never times out with idleMs 0', async () => {
+    await expect(collect(withIdleTimeout(chunks([40, 40]), 0))).resolves.toEqual([0, 1]);
+  });
+});
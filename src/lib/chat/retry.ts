@@ -0,0 +1,134 @@
+// Timeouts and exponential-backoff retries around a chat-ai call, and an idle timeout for streamed replies.
+
+export interface RetryConfig {
+  // Attempts after the first one
+  retries?: number;
+  // Backoff before retry n is baseDelayMs * 2^n, capped, with ±20% jitter
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Per attempt; 0 disables the timeout
+  timeoutMs?: number;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${ms / 1000}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Failure worth retrying: a timeout, a network error, or a server error flagged as transient
+ * (the transports set `retryable` from the HTTP status).
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof TypeError) return true; // fetch network failure
+  if (typeof error === 'object' && error !== null && 'retryable' in error) {
+    return (error as { retryable: unknown }).retryable === true;
+  }
+  return false;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new DOMException('The request was aborted', 'AbortError'));
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Yields from `source`, failing with a TimeoutError when nothing arrives for `idleMs` (0 disables it).
+ * `withRetry` only covers the call until the stream opens; this catches one that stalls afterwards.
+ * `onTimeout` runs first, to cancel whatever produces the items.
+ */
+export async function* withIdleTimeout<T>(
+  source: AsyncIterable<T>,
+  idleMs: number,
+  onTimeout?: () => void
+): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  let done = false;
+
+  try {
+    while (!done) {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const next = iterator.next();
+      const result =
+        idleMs > 0
+          ? await Promise.race([
+              next,
+              new Promise<never>((_, reject) => {
+                timeout = setTimeout(() => {
+                  onTimeout?.();
+                  reject(new TimeoutError(idleMs));
+                }, idleMs);
+              }),
+            ])
+          : await next;
+      clearTimeout(timeout);
+
+      done = result.done ?? false;
+      if (!done) yield result.value;
+    }
+  } finally {
+    // Stopped early (the consumer broke out, or a timeout): let the source clean up
+    if (!done) void iterator.return?.(undefined);
+  }
+}
+
+/**
+ * Runs `attempt` with a fresh signal per try that aborts on timeout or when `signal` aborts.
+ * Transient failures are retried; anything else, or the last failure, is thrown.
+ */
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal,
+  config: RetryConfig = {}
+): Promise<T> {
+  const { retries = 2, baseDelayMs = 1000, maxDelayMs = 8000, timeoutMs = 30000, onRetry } = config;
+
+  for (let n = 0; ; n++) {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal.addEventListener('abort', forwardAbort, { once: true });
+    let timedOut = false;
+    const timeout =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+
+    try {
+      // On success the forwarding stays, so aborting `signal` still cancels a streamed body
+      const result = await attempt(controller.signal);
+      clearTimeout(timeout);
+      return result;
+    } catch (error) {
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', forwardAbort);
+      if (signal.aborted) throw error;
+      const failure = timedOut ? new TimeoutError(timeoutMs) : error;
+      if (n >= retries || !isTransientError(failure)) throw failure;
+
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** n) * (0.8 + Math.random() * 0.4);
+      onRetry?.(n + 1, failure, delay);
+      await wait(delay, signal);
+    }
+  }
+}
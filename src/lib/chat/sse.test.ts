@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { isEventStream, readEventStream } from '@/lib/chat/sse';
+
+// Response whose body arrives in the given chunks, split wherever the test wants
+function streamed(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function collect(source: AsyncIterable<string>): Promise<string[]> {
+  const items: string[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
+describe('readEventStream', () => {
+  it('yields the delta of each data line', async () => {
+    const response = streamed(['data: {"delta": "Hel"}\n\ndata: {"delta": "lo"}\n\n']);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['Hel', 'lo']);
+  });
+
+  it('joins lines split across reads, and CRLF line endings', async () => {
+    const response = streamed(['data: {"del', 'ta": "Hi"}\r', '\n\r\ndata: {"delta": " there"}\r\n']);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['Hi', ' there']);
+  });
+
+  it('stops at [DONE]', async () => {
+    const response = streamed(['data: {"delta": "a"}\n', 'data: [DONE]\n', 'data: {"delta": "b"}\n']);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['a']);
+  });
+
+  it('stops on a done flag', async () => {
+    const response = streamed(['data: {"delta": "a"}\ndata: {"done": true}\ndata: {"delta": "b"}\n']);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['a']);
+  });
+
+  it('accepts text and content fields, and raw or JSON string payloads', async () => {
+    const response = streamed([
+      'data: {"text": "one"}\n',
+      'data: {"content": "two"}\n',
+      'data: "three"\n',
+      'data: four\n',
+    ]);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['one', 'two', 'three', 'four']);
+  });
+
+  it('skips comments, other fields and empty deltas', async () => {
+    const response = streamed([
+      ': keep-alive\nevent: message\nid: 1\n',
+      'data: {"delta": ""}\ndata: {"delta": 42}\ndata: {"delta": "ok"}\n',
+    ]);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['ok']);
+  });
+
+  it('reads a last line without a trailing newline', async () => {
+    const response = streamed(['data: {"delta": "a"}\ndata: {"delta": "b"}']);
+
+    await expect(collect(readEventStream(response))).resolves.toEqual(['a', 'b']);
+  });
+
+  it('stops reading once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const response = streamed(['data: {"delta": "a"}\n', 'data: {"delta": "b"}\n']);
+    const deltas: string[] = [];
+
+    for await (const delta of readEventStream(response, controller.signal)) {
+      deltas.push(delta);
+      controller.abort();
+    }
+
+    expect(deltas).toEqual(['a']);
+  });
+});
+
+describe('isEventStream', () => {
+  it('recognizes a Response body', () => {
+    expect(isEventStream(streamed([]))).toBe(true);
+    expect(isEventStream({ reply: 'hi' })).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+// Minimal server-sent-events reader for streamed chat-ai responses.
+// The Edge Function emits `data: {"delta": "..."}` lines and finishes with `data: [DONE]`.
+// Data payloads that are not JSON objects are treated as raw text deltas.
+
+export interface StreamChunk {
+  delta: string;
+  done: boolean;
+}
+
+function parseDataLine(payload: string): StreamChunk {
+  if (payload === '[DONE]') {
+    return { delta: '', done: true };
+  }
+
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed !== 'object' || parsed === null) {
+      return { delta: typeof parsed === 'string' ? parsed : payload, done: false };
+    }
+    const delta = parsed.delta ?? parsed.text ?? parsed.content ?? '';
+    return { delta: typeof delta === 'string' ? delta : '', done: parsed.done === true };
+  } catch {
+    return { delta: payload, done: false };
+  }
+}
+
+/**
+ * Reads an SSE response body and yields text deltas as they arrive.
+ * Stops at `[DONE]`, at the end of the body, or when the signal is aborted.
+ */
+export async function* readEventStream(
+  response: Response,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (!signal?.aborted) {
+      const { value, done } = await reader.read();
+      if (!done) {
+        buffer += decoder.decode(value, { stream: true });
+      }
+
+      // Events are separated by newlines; keep the trailing partial line for the next read
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+
+        const chunk = parseDataLine(line.slice(5).trimStart());
+        if (chunk.done) return;
+        if (chunk.delta) yield chunk.delta;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+export function isEventStream(data: unknown): data is Response {
+  return typeof Response !== 'undefined' && data instanceof Response;
+}
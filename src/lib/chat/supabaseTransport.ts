@@ -0,0 +1,62 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { readEventStream, isEventStream } from '@/lib/chat/sse';
+import {
+  ChatTransportError,
+  type ChatReply,
+  type ChatRequest,
+  type ChatTransport,
+  type SummaryRequest,
+} from '@/lib/chat/transport';
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+function toTransportError(error: Error): ChatTransportError {
+  if (error instanceof FunctionsHttpError) {
+    const status: number | undefined = error.context?.status;
+    return new ChatTransportError(
+      status ? `chat-ai responded with ${status}` : error.message,
+      status !== undefined && RETRYABLE_STATUSES.has(status),
+      status
+    );
+  }
+  // The request never reached the function, or the relay couldn't reach it
+  const retryable = error instanceof FunctionsFetchError || error instanceof FunctionsRelayError;
+  return new ChatTransportError(error.message, retryable);
+}
+
+/**
+ * Calls the chat-ai Edge Function, which answers with an SSE stream or a `{ response }` JSON body.
+ */
+export class SupabaseChatTransport implements ChatTransport {
+  async send(request: ChatRequest, signal: AbortSignal): Promise<ChatReply> {
+    const { data, error } = await supabase.functions.invoke('chat-ai', { body: request, signal });
+
+    if (error) {
+      throw toTransportError(error);
+    }
+
+    if (isEventStream(data)) {
+      return { kind: 'stream', deltas: readEventStream(data, signal) };
+    }
+    return { kind: 'text', content: data.response };
+  }
+
+  // Same function with `task: 'summarize'`; it answers `{ summary }`
+  async summarize(request: SummaryRequest, signal: AbortSignal): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('chat-ai', {
+      body: { ...request, task: 'summarize', stream: false },
+      signal,
+    });
+
+    if (error) {
+      throw toTransportError(error);
+    }
+
+    const summary = data?.summary ?? data?.response;
+    if (typeof summary !== 'string' || !summary.trim()) {
+      throw new Error('chat-ai returned no summary');
+    }
+    return summary.trim();
+  }
+}
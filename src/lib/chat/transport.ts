@@ -0,0 +1,80 @@
+// How a user turn reaches the model. The hook talks to a ChatTransport; which one is used is
+// decided by VITE_CHAT_TRANSPORT: unset or "supabase" for the chat-ai Edge Function,
+// "mock" for canned local replies that need no network or keys.
+
+import type { AIProvider } from '@/lib/chat/providers';
+import type { EmotionContextPayload } from '@/lib/chat/emotionContext';
+import { SupabaseChatTransport } from '@/lib/chat/supabaseTransport';
+import { MockChatTransport } from '@/lib/chat/mockTransport';
+
+export interface ChatHistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Request body as chat-ai expects it
+export interface ChatRequest {
+  message: string;
+  emotionContext: EmotionContextPayload;
+  conversationHistory: ChatHistoryEntry[];
+  // Rolling summary of the turns before conversationHistory
+  conversationSummary: string | null;
+  provider: AIProvider;
+  model: string;
+  systemPrompt?: string;
+  // Ask for a streamed reply; a transport may still answer in one piece
+  stream: boolean;
+}
+
+// Asks chat-ai to fold older turns into the rolling summary
+export interface SummaryRequest {
+  previousSummary: string | null;
+  messages: ChatHistoryEntry[];
+  provider: AIProvider;
+  model: string;
+}
+
+// A failed call; `retryable` marks transient failures (network, 429, 5xx) worth another attempt
+export class ChatTransportError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'ChatTransportError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+export type ChatReply =
+  | { kind: 'stream'; deltas: AsyncIterable<string> }
+  | { kind: 'text'; content: string };
+
+export interface ChatTransport {
+  /**
+   * Sends one turn. Rejects on failure; once `signal` is aborted the result is ignored.
+   */
+  send(request: ChatRequest, signal: AbortSignal): Promise<ChatReply>;
+  /**
+   * Returns the updated summary covering `previousSummary` and `messages`.
+   */
+  summarize(request: SummaryRequest, signal: AbortSignal): Promise<string>;
+}
+
+export type ChatTransportId = 'supabase' | 'mock';
+
+export function createChatTransport(id: string | undefined = import.meta.env.VITE_CHAT_TRANSPORT): ChatTransport {
+  switch (id) {
+    case 'mock':
+      console.log('[ChatTransport] Using the local mock backend');
+      return MockChatTransport.fromEnv();
+    case undefined:
+    case '':
+    case 'supabase':
+      return new SupabaseChatTransport();
+    default:
+      console.warn(`[ChatTransport] Unknown VITE_CHAT_TRANSPORT "${id}", using supabase`);
+      return new SupabaseChatTransport();
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import type { Emotion, EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotionResult, VoiceMetrics } from '@/services/VoiceAnalysisService';
+import {
+  BaselineRecorder,
+  normalizeFacialResult,
+  normalizeVoiceMetrics,
+  type FacialBaseline,
+  type VoiceBaseline,
+} from '@/lib/emotion/baseline';
+import { EMOTION_LABELS, emptyDistribution } from '@/lib/emotion/taxonomy';
+
+function facial(scores: Partial<Record<Emotion, number>>): EmotionResult {
+  const all = { ...emptyDistribution(), ...scores };
+  const [dominant, confidence] = (Object.entries(all) as [Emotion, number][]).sort((a, b) => b[1] - a[1])[0];
+  return { dominant, confidence, all, timestamp: 0 };
+}
+
+function metrics(overrides: Partial<VoiceMetrics> = {}): VoiceMetrics {
+  return {
+    pitch: 0,
+    voicing: 0,
+    pitchVariation: 0,
+    volume: 0,
+    volumeVariation: 0,
+    speechRate: 0,
+    wordsPerMinute: 0,
+    energy: 0,
+    ...overrides,
+  };
+}
+
+const voice = (overrides: Partial<VoiceMetrics>): VoiceEmotionResult => ({
+  emotion: 'neutral',
+  confidence: 1,
+  all: { happy: 0, sad: 0, angry: 0, fearful: 0, neutral: 1 },
+  metrics: metrics(overrides),
+  timestamp: 0,
+});
+
+// A low, quiet speaker
+const VOICE_BASELINE: VoiceBaseline = {
+  pitchMean: 110,
+  pitchStd: 10,
+  pitchVariation: 10,
+  volume: 0.2,
+  energy: 0.2,
+  speechRate: 3,
+  samples: 100,
+};
+
+describe('BaselineRecorder', () => {
+  it('needs enough readings of at least one modality', () => {
+    const recorder = new BaselineRecorder();
+    for (let i = 0; i < 9; i++) recorder.addFacial(facial({ neutral: 1 }));
+    for (let i = 0; i < 19; i++) recorder.addVoice(voice({ pitch: 120 }));
+
+    expect(recorder.facialSamples).toBe(9);
+    expect(recorder.voiceSamples).toBe(19);
+    expect(recorder.finish()).toBeNull();
+  });
+
+  it('leaves out a modality short of readings', () => {
+    const recorder = new BaselineRecorder();
+    for (let i = 0; i < 10; i++) recorder.addFacial(facial({ neutral: 1 }));
+    recorder.addVoice(voice({ pitch: 120 }));
+
+    const baseline = recorder.finish()!;
+    expect(baseline.facial!.samples).toBe(10);
+    expect(baseline.voice).toBeNull();
+    expect(Number.isNaN(Date.parse(baseline.recordedAt))).toBe(false);
+  });
+
+  it('averages the resting expression', () => {
+    const recorder = new BaselineRecorder();
+    for (let i = 0; i < 10; i++) {
+      recorder.addFacial(facial(i % 2 === 0 ? { neutral: 0.7, sad: 0.3 } : { neutral: 0.9, sad: 0.1 }));
+    }
+
+    const { resting } = recorder.finish()!.facial!;
+    expect(resting.sad).toBeCloseTo(0.2, 6);
+    expect(resting.neutral).toBeCloseTo(0.8, 6);
+  });
+
+  it('measures pitch over voiced frames and rate over frames with a rate', () => {
+    const recorder = new BaselineRecorder();
+    for (let i = 0; i < 20; i++) {
+      const voiced = i % 2 === 0;
+      recorder.addVoice(
+        voice({
+          pitch: voiced ? (i % 4 === 0 ? 100 : 120) : 0,
+          speechRate: voiced ? 4 : 0,
+          volume: 0.3,
+          energy: 0.1,
+          pitchVariation: 15,
+        })
+      );
+    }
+
+    const baseline = recorder.finish()!.voice!;
+    expect(baseline.pitchMean).toBeCloseTo(110, 6);
+    expect(baseline.pitchStd).toBeCloseTo(10, 6);
+    expect(baseline.speechRate).toBeCloseTo(4, 6);
+    expect(baseline.volume).toBeCloseTo(0.3, 6);
+    expect(baseline.energy).toBeCloseTo(0.1, 6);
+    expect(baseline.pitchVariation).toBeCloseTo(15, 6);
+    expect(baseline.samples).toBe(20);
+  });
+});
+
+describe('normalizeVoiceMetrics', () => {
+  it('maps the user’s usual voice onto the reference speaker', () => {
+    const normalized = normalizeVoiceMetrics(
+      metrics({ pitch: 110, pitchVariation: 10, volume: 0.2, energy: 0.2, speechRate: 3 }),
+      VOICE_BASELINE
+    );
+
+    expect(normalized.pitch).toBeCloseTo(165, 6);
+    expect(normalized.pitchVariation).toBeCloseTo(20, 6);
+    expect(normalized.volume).toBeCloseTo(0.45, 6);
+    expect(normalized.energy).toBeCloseTo(0.45, 6);
+    expect(normalized.speechRate).toBeCloseTo(4.5, 6);
+  });
+
+  it('scales pitch by z-score', () => {
+    // Two of the user's standard deviations up: two of the reference's
+    expect(normalizeVoiceMetrics(metrics({ pitch: 130 }), VOICE_BASELINE).pitch).toBeCloseTo(215, 6);
+  });
+
+  it('keeps unvoiced frames and missing rates at 0', () => {
+    const normalized = normalizeVoiceMetrics(metrics(), VOICE_BASELINE);
+
+    expect(normalized.pitch).toBe(0);
+    expect(normalized.speechRate).toBe(0);
+  });
+
+  it('floors a flat or quiet calibration and clamps levels', () => {
+    const flat: VoiceBaseline = { ...VOICE_BASELINE, pitchStd: 0, pitchVariation: 0, volume: 0, energy: 0 };
+    const normalized = normalizeVoiceMetrics(metrics({ pitch: 118, pitchVariation: 5, volume: 0.5 }), flat);
+
+    // Std floored at 8 Hz
+    expect(normalized.pitch).toBeCloseTo(165 + 25, 6);
+    expect(normalized.pitchVariation).toBeCloseTo(20, 6);
+    expect(normalized.volume).toBe(1);
+  });
+
+  it('never turns a voiced frame unvoiced', () => {
+    expect(normalizeVoiceMetrics(metrics({ pitch: 40 }), VOICE_BASELINE).pitch).toBe(1);
+  });
+});
+
+describe('normalizeFacialResult', () => {
+  const resting: FacialBaseline = {
+    resting: { ...emptyDistribution(), sad: 0.4, neutral: 0.6 },
+    samples: 10,
+  };
+
+  it('reads the user’s resting expression as neutral', () => {
+    const result = normalizeFacialResult(facial({ sad: 0.4, neutral: 0.6 }), resting);
+
+    expect(result.dominant).toBe('neutral');
+    expect(result.all.sad).toBe(0);
+    expect(result.all.neutral).toBeCloseTo(1, 6);
+  });
+
+  it('keeps only what is above the resting level, and stays a distribution', () => {
+    const result = normalizeFacialResult(facial({ sad: 0.9, neutral: 0.1 }), resting);
+
+    expect(result.dominant).toBe('sad');
+    expect(result.all.sad).toBeCloseTo(0.5, 6);
+    expect(result.confidence).toBeCloseTo(0.5, 6);
+    expect(EMOTION_LABELS.reduce((sum, label) => sum + result.all[label], 0)).toBeCloseTo(1, 6);
+  });
+});
@@ -0,0 +1,156 @@
+import type { EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotionResult, VoiceMetrics } from '@/services/VoiceAnalysisService';
+import { EMOTION_LABELS, EmotionDistribution, dominantEmotion, emptyDistribution } from './taxonomy';
+
+// Per-user neutral baseline, recorded during calibration.
+//
+// The voice rules use absolute thresholds (pitch in Hz, volume levels) and the expression model
+// has its own resting bias per face. Readings are mapped onto a reference speaker/face relative
+// to this baseline before they're classified, so "higher than usual" is what counts.
+
+export interface VoiceBaseline {
+  // Hz, over voiced frames
+  pitchMean: number;
+  pitchStd: number;
+  // Mean of the rolling pitch standard deviation
+  pitchVariation: number;
+  volume: number;
+  energy: number;
+  // Syllables per second; 0 when too little speech was heard
+  speechRate: number;
+  samples: number;
+}
+
+export interface FacialBaseline {
+  // Mean expression distribution with a neutral face
+  resting: EmotionDistribution;
+  samples: number;
+}
+
+export interface EmotionBaseline {
+  facial: FacialBaseline | null;
+  voice: VoiceBaseline | null;
+  recordedAt: string;
+}
+
+// The speaker the absolute thresholds in VoiceAnalysisService.detectEmotion were written for
+const REFERENCE_VOICE = {
+  pitchMean: 165,
+  pitchStd: 25,
+  pitchVariation: 20,
+  volume: 0.45,
+  energy: 0.45,
+  speechRate: 4.5,
+};
+
+// Floors so a very flat or quiet calibration doesn't blow readings up
+const MIN_PITCH_STD = 8;
+const MIN_PITCH_VARIATION = 5;
+const MIN_LEVEL = 0.05;
+
+const MIN_FACIAL_SAMPLES = 10;
+const MIN_VOICE_SAMPLES = 20;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+function stdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+/**
+ * Collects readings while the user holds a neutral face and speaks normally.
+ */
+export class BaselineRecorder {
+  private facial: EmotionResult[] = [];
+  private voice: VoiceMetrics[] = [];
+
+  addFacial(result: EmotionResult): void {
+    this.facial.push(result);
+  }
+
+  addVoice(result: VoiceEmotionResult): void {
+    this.voice.push(result.metrics);
+  }
+
+  get facialSamples(): number {
+    return this.facial.length;
+  }
+
+  get voiceSamples(): number {
+    return this.voice.length;
+  }
+
+  /**
+   * Returns null when neither modality got enough readings; a modality short of readings is left out.
+   */
+  finish(): EmotionBaseline | null {
+    const facial = this.facial.length >= MIN_FACIAL_SAMPLES ? this.facialBaseline() : null;
+    const voice = this.voice.length >= MIN_VOICE_SAMPLES ? this.voiceBaseline() : null;
+    if (!facial && !voice) return null;
+    return { facial, voice, recordedAt: new Date().toISOString() };
+  }
+
+  private facialBaseline(): FacialBaseline {
+    const resting = emptyDistribution();
+    for (const label of EMOTION_LABELS) {
+      resting[label] = mean(this.facial.map((r) => r.all[label]));
+    }
+    return { resting, samples: this.facial.length };
+  }
+
+  private voiceBaseline(): VoiceBaseline {
+    const pitches = this.voice.filter((m) => m.pitch > 0).map((m) => m.pitch);
+    const rates = this.voice.filter((m) => m.speechRate > 0).map((m) => m.speechRate);
+    return {
+      pitchMean: mean(pitches),
+      pitchStd: stdDev(pitches),
+      pitchVariation: mean(this.voice.map((m) => m.pitchVariation)),
+      volume: mean(this.voice.map((m) => m.volume)),
+      energy: mean(this.voice.map((m) => m.energy)),
+      speechRate: mean(rates),
+      samples: this.voice.length,
+    };
+  }
+}
+
+/**
+ * Maps metrics onto the reference speaker: pitch by z-score, levels and rate by ratio.
+ */
+export function normalizeVoiceMetrics(metrics: VoiceMetrics, baseline: VoiceBaseline): VoiceMetrics {
+  const normalized = { ...metrics };
+
+  if (metrics.pitch > 0 && baseline.pitchMean > 0) {
+    const z = (metrics.pitch - baseline.pitchMean) / Math.max(MIN_PITCH_STD, baseline.pitchStd);
+    // Stay above 0, which means unvoiced
+    normalized.pitch = Math.max(1, REFERENCE_VOICE.pitchMean + z * REFERENCE_VOICE.pitchStd);
+  }
+  normalized.pitchVariation =
+    (metrics.pitchVariation * REFERENCE_VOICE.pitchVariation) / Math.max(MIN_PITCH_VARIATION, baseline.pitchVariation);
+  normalized.volume = clamp01((metrics.volume * REFERENCE_VOICE.volume) / Math.max(MIN_LEVEL, baseline.volume));
+  normalized.energy = clamp01((metrics.energy * REFERENCE_VOICE.energy) / Math.max(MIN_LEVEL, baseline.energy));
+  if (metrics.speechRate > 0 && baseline.speechRate > 0) {
+    normalized.speechRate = (metrics.speechRate * REFERENCE_VOICE.speechRate) / baseline.speechRate;
+  }
+
+  return normalized;
+}
+
+/**
+ * Discounts the resting expression: only the share of each emotion above the user's resting
+ * level counts, and what's removed goes to neutral.
+ */
+export function normalizeFacialResult(result: EmotionResult, baseline: FacialBaseline): EmotionResult {
+  const all = emptyDistribution();
+  let excess = 0;
+  for (const label of EMOTION_LABELS) {
+    if (label === 'neutral') continue;
+    all[label] = Math.max(0, result.all[label] - baseline.resting[label]);
+    excess += all[label];
+  }
+  all.neutral = Math.max(0, 1 - excess);
+
+  const { emotion, confidence } = dominantEmotion(all);
+  return { ...result, dominant: emotion, confidence, all };
+}
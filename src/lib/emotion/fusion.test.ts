@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Emotion, EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotion, VoiceEmotionResult, VoiceMetrics } from '@/services/VoiceAnalysisService';
+import {
+  createBayesianStrategy,
+  createMaxConfidenceStrategy,
+  createWeightedAverageStrategy,
+  resolveFusionStrategy,
+} from '@/lib/emotion/fusion';
+import { EMOTION_LABELS } from '@/lib/emotion/taxonomy';
+
+function facial(scores: Partial<Record<Emotion, number>>): EmotionResult {
+  const all = { happy: 0, sad: 0, angry: 0, fearful: 0, neutral: 0, surprised: 0, disgusted: 0, ...scores };
+  const [dominant, confidence] = (Object.entries(all) as [Emotion, number][]).sort((a, b) => b[1] - a[1])[0];
+  return { dominant, confidence, all, timestamp: 0 };
+}
+
+const METRICS: VoiceMetrics = {
+  pitch: 0,
+  voicing: 0,
+  pitchVariation: 0,
+  volume: 0,
+  volumeVariation: 0,
+  speechRate: 0,
+  wordsPerMinute: 0,
+  energy: 0,
+};
+
+function voice(scores: Partial<Record<VoiceEmotion, number>>): VoiceEmotionResult {
+  const all = { happy: 0, sad: 0, angry: 0, fearful: 0, neutral: 0, ...scores };
+  const [emotion, confidence] = (Object.entries(all) as [VoiceEmotion, number][]).sort((a, b) => b[1] - a[1])[0];
+  return { emotion, confidence, all, metrics: METRICS, timestamp: 0 };
+}
+
+const total = (distribution: Record<Emotion, number>) => EMOTION_LABELS.reduce((sum, l) => sum + distribution[l], 0);
+
+describe.each([
+  ['weighted-average', createWeightedAverageStrategy()],
+  ['max-confidence', createMaxConfidenceStrategy()],
+  ['bayesian', createBayesianStrategy()],
+])('%s fusion', (_, strategy) => {
+  it('returns null without readings', () => {
+    expect(strategy.fuse(null, null)).toBeNull();
+  });
+
+  it('follows a single modality', () => {
+    expect(strategy.fuse(facial({ surprised: 0.8, neutral: 0.2 }), null)?.emotion).toBe('surprised');
+    expect(strategy.fuse(null, voice({ sad: 0.7, neutral: 0.3 }))?.emotion).toBe('sad');
+  });
+
+  it('returns a normalised distribution with the dominant label', () => {
+    const fused = strategy.fuse(facial({ happy: 0.6, neutral: 0.4 }), voice({ happy: 0.5, neutral: 0.5 }))!;
+
+    expect(total(fused.distribution)).toBeCloseTo(1, 6);
+    expect(fused.confidence).toBe(fused.distribution[fused.emotion]);
+    expect(fused.emotion).toBe('happy');
+  });
+});
+
+describe('weighted-average fusion', () => {
+  it('weights the face over the voice by default', () => {
+    const fused = createWeightedAverageStrategy().fuse(facial({ happy: 1 }), voice({ sad: 1 }))!;
+
+    expect(fused.emotion).toBe('happy');
+    expect(fused.distribution.happy).toBeCloseTo(0.55 / 0.93, 6);
+    expect(fused.distribution.sad).toBeCloseTo(0.38 / 0.93, 6);
+  });
+
+  it('uses the configured weights', () => {
+    const fused = createWeightedAverageStrategy({ facialWeight: 0.2, voiceWeight: 0.8 }).fuse(
+      facial({ happy: 1 }),
+      voice({ sad: 1 })
+    )!;
+
+    expect(fused.emotion).toBe('sad');
+  });
+});
+
+describe('max-confidence fusion', () => {
+  it('trusts the more confident modality outright', () => {
+    const strategy = createMaxConfidenceStrategy();
+
+    expect(strategy.fuse(facial({ happy: 0.5, neutral: 0.5 }), voice({ angry: 0.9, neutral: 0.1 }))?.emotion).toBe(
+      'angry'
+    );
+    expect(strategy.fuse(facial({ happy: 0.9, neutral: 0.1 }), voice({ angry: 0.6, neutral: 0.4 }))?.emotion).toBe(
+      'happy'
+    );
+  });
+});
+
+describe('bayesian fusion', () => {
+  it('favours the label both modalities agree on over each one’s favourite', () => {
+    // Face leans happy, voice leans angry, both give neutral a fair share
+    const fused = createBayesianStrategy().fuse(
+      facial({ happy: 0.5, neutral: 0.4, angry: 0.1 }),
+      voice({ angry: 0.5, neutral: 0.4, happy: 0.1 })
+    )!;
+
+    expect(fused.emotion).toBe('neutral');
+  });
+
+  it('keeps labels the voice has no evidence for reachable through the floor', () => {
+    const fused = createBayesianStrategy().fuse(facial({ disgusted: 0.9, neutral: 0.1 }), voice({ neutral: 1 }))!;
+
+    expect(fused.distribution.disgusted).toBeGreaterThan(0);
+  });
+});
+
+describe('resolveFusionStrategy', () => {
+  it('builds strategies by id and passes custom ones through', () => {
+    expect(resolveFusionStrategy('bayesian').id).toBe('bayesian');
+    expect(resolveFusionStrategy().id).toBe('weighted-average');
+
+    const custom = { id: 'custom', name: 'Custom', fuse: () => null };
+    expect(resolveFusionStrategy(custom)).toBe(custom);
+  });
+});
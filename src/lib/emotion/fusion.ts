@@ -0,0 +1,130 @@
+import type { Emotion, EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotionResult } from '@/services/VoiceAnalysisService';
+import {
+  EMOTION_LABELS,
+  EmotionDistribution,
+  dominantEmotion,
+  emptyDistribution,
+  facialDistribution,
+  normalizeDistribution,
+  uniformDistribution,
+  voiceDistribution,
+} from './taxonomy';
+
+export interface FusedEmotion {
+  emotion: Emotion;
+  confidence: number;
+  distribution: EmotionDistribution;
+}
+
+export interface EmotionFusionStrategy {
+  id: string;
+  name: string;
+  fuse: (facial: EmotionResult | null, voice: VoiceEmotionResult | null) => FusedEmotion | null;
+}
+
+export type FusionStrategyId = 'weighted-average' | 'max-confidence' | 'bayesian';
+
+function toFused(distribution: EmotionDistribution): FusedEmotion {
+  return { ...dominantEmotion(distribution), distribution };
+}
+
+export interface WeightedAverageOptions {
+  facialWeight?: number;
+  voiceWeight?: number;
+}
+
+/**
+ * Weighted average of both probability distributions.
+ * Defaults to Mehrabian's 55% (face) / 38% (voice) split.
+ */
+export function createWeightedAverageStrategy(options: WeightedAverageOptions = {}): EmotionFusionStrategy {
+  const { facialWeight = 0.55, voiceWeight = 0.38 } = options;
+
+  return {
+    id: 'weighted-average',
+    name: 'Weighted average',
+    fuse(facial, voice) {
+      if (!facial && !voice) return null;
+
+      const fused = emptyDistribution();
+      const facialDist = facial ? facialDistribution(facial) : null;
+      const voiceDist = voice ? voiceDistribution(voice) : null;
+
+      for (const label of EMOTION_LABELS) {
+        fused[label] =
+          (facialDist ? facialDist[label] * facialWeight : 0) +
+          (voiceDist ? voiceDist[label] * voiceWeight : 0);
+      }
+
+      return toFused(normalizeDistribution(fused));
+    },
+  };
+}
+
+/**
+ * Trusts whichever modality is most confident on its own.
+ */
+export function createMaxConfidenceStrategy(): EmotionFusionStrategy {
+  return {
+    id: 'max-confidence',
+    name: 'Max confidence',
+    fuse(facial, voice) {
+      if (!facial && !voice) return null;
+
+      if (facial && (!voice || facial.confidence >= voice.confidence)) {
+        return toFused(facialDistribution(facial));
+      }
+
+      return toFused(voiceDistribution(voice!));
+    },
+  };
+}
+
+export interface BayesianOptions {
+  // Probability floor per label so a modality with no evidence for a label can't veto it
+  floor?: number;
+  prior?: EmotionDistribution;
+}
+
+/**
+ * Product of experts: each modality is treated as an independent likelihood
+ * and multiplied with the prior, then renormalised.
+ */
+export function createBayesianStrategy(options: BayesianOptions = {}): EmotionFusionStrategy {
+  const { floor = 0.05, prior = uniformDistribution() } = options;
+
+  return {
+    id: 'bayesian',
+    name: 'Bayesian product of experts',
+    fuse(facial, voice) {
+      if (!facial && !voice) return null;
+
+      const experts = [
+        facial ? facialDistribution(facial) : null,
+        voice ? voiceDistribution(voice) : null,
+      ].filter((dist): dist is EmotionDistribution => dist !== null);
+
+      const posterior = { ...prior };
+      for (const expert of experts) {
+        for (const label of EMOTION_LABELS) {
+          posterior[label] *= floor + (1 - floor) * expert[label];
+        }
+      }
+
+      return toFused(normalizeDistribution(posterior));
+    },
+  };
+}
+
+export const FUSION_STRATEGIES: Record<FusionStrategyId, () => EmotionFusionStrategy> = {
+  'weighted-average': () => createWeightedAverageStrategy(),
+  'max-confidence': createMaxConfidenceStrategy,
+  bayesian: () => createBayesianStrategy(),
+};
+
+export function resolveFusionStrategy(
+  strategy: FusionStrategyId | EmotionFusionStrategy = 'weighted-average'
+): EmotionFusionStrategy {
+  return typeof strategy === 'string' ? FUSION_STRATEGIES[strategy]() : strategy;
+}
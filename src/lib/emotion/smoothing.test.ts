@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Emotion } from '@/services/FaceEmotionService';
+import type { FusedEmotion } from '@/lib/emotion/fusion';
+import { EmotionSmoother } from '@/lib/emotion/smoothing';
+import { dominantEmotion, emptyDistribution } from '@/lib/emotion/taxonomy';
+
+function reading(scores: Partial<Record<Emotion, number>>): FusedEmotion {
+  const distribution = { ...emptyDistribution(), ...scores };
+  return { ...dominantEmotion(distribution), distribution };
+}
+
+const HAPPY = reading({ happy: 0.9, neutral: 0.1 });
+const SAD = reading({ sad: 0.9, neutral: 0.1 });
+
+// Feeds `input` every `stepMs` from `start` for `ms`; returns the outputs
+function run(smoother: EmotionSmoother, input: FusedEmotion, ms: number, start: number, stepMs = 100) {
+  const outputs: FusedEmotion[] = [];
+  for (let t = start; t < start + ms; t += stepMs) {
+    outputs.push(smoother.update(input, t)!);
+  }
+  return outputs;
+}
+
+describe('EmotionSmoother', () => {
+  it('passes the first reading through', () => {
+    const output = new EmotionSmoother().update(HAPPY, 0)!;
+
+    expect(output.emotion).toBe('happy');
+    expect(output.distribution.happy).toBeCloseTo(0.9, 6);
+  });
+
+  it('returns the last output when there is no reading', () => {
+    const smoother = new EmotionSmoother();
+    const first = smoother.update(HAPPY, 0);
+
+    expect(smoother.update(null, 100)).toBe(first);
+  });
+
+  it('moves the distribution by 1 - e^(-dt/τ) per reading', () => {
+    const smoother = new EmotionSmoother({ timeConstantMs: 1000 });
+    smoother.update(HAPPY, 0);
+    const output = smoother.update(SAD, 1000)!;
+
+    const alpha = 1 - Math.exp(-1);
+    expect(output.distribution.sad).toBeCloseTo(0.9 * alpha, 6);
+    expect(output.distribution.happy).toBeCloseTo(0.9 * (1 - alpha), 6);
+  });
+
+  it('does not advance when the same instant is replayed', () => {
+    const smoother = new EmotionSmoother();
+    smoother.update(HAPPY, 0);
+    const once = smoother.update(SAD, 500);
+
+    expect(smoother.update(SAD, 500)).toBe(once);
+  });
+
+  it('ignores a single outlier reading', () => {
+    const smoother = new EmotionSmoother();
+    run(smoother, HAPPY, 3000, 0);
+
+    expect(smoother.update(SAD, 3000)!.emotion).toBe('happy');
+    expect(run(smoother, HAPPY, 1000, 3100).every((o) => o.emotion === 'happy')).toBe(true);
+  });
+
+  it('switches once the new emotion holds for the dwell time and leads by the margin', () => {
+    const smoother = new EmotionSmoother({ timeConstantMs: 1500, minDwellMs: 1200, switchMargin: 0.1 });
+    run(smoother, HAPPY, 3000, 0);
+    const outputs = run(smoother, SAD, 5000, 3000);
+
+    const switchedAt = outputs.findIndex((o) => o.emotion === 'sad');
+    expect(switchedAt).toBeGreaterThan(0);
+    // Never flips back while the input stays sad
+    expect(outputs.slice(switchedAt).every((o) => o.emotion === 'sad')).toBe(true);
+    // The switch waits for the margin, not just for sad to edge ahead
+    expect(outputs[switchedAt].distribution.sad - outputs[switchedAt].distribution.happy).toBeGreaterThanOrEqual(0.1);
+  });
+
+  it('holds a label for minDwellMs even if another takes the lead', () => {
+    const smoother = new EmotionSmoother({ timeConstantMs: 10, minDwellMs: 2000, switchMargin: 0 });
+    smoother.update(HAPPY, 0);
+    const outputs = run(smoother, SAD, 1500, 100);
+
+    expect(outputs.every((o) => o.emotion === 'happy')).toBe(true);
+    expect(smoother.update(SAD, 2100)!.emotion).toBe('sad');
+  });
+
+  it('starts over after reset()', () => {
+    const smoother = new EmotionSmoother();
+    run(smoother, HAPPY, 3000, 0);
+    smoother.reset();
+
+    expect(smoother.update(SAD, 3000)!.emotion).toBe('sad');
+  });
+});
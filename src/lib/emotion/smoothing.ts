@@ -0,0 +1,84 @@
+import type { Emotion } from '@/services/FaceEmotionService';
+import type { FusedEmotion } from './fusion';
+import { EMOTION_LABELS, EmotionDistribution, dominantEmotion, normalizeDistribution } from './taxonomy';
+
+export interface EmotionSmoothingConfig {
+  // EMA time constant: a reading's weight decays to ~37% after this long
+  timeConstantMs?: number;
+  // Minimum time a label stays displayed before another one can replace it
+  minDwellMs?: number;
+  // How far ahead (in probability) a challenger must be before the label switches
+  switchMargin?: number;
+}
+
+/**
+ * Exponential moving average over fused emotion distributions, with hysteresis
+ * on the dominant label so the displayed emotion doesn't flicker between readings.
+ *
+ * Time-based rather than sample-based, because facial (500ms) and voice (100ms)
+ * readings arrive at different rates.
+ */
+export class EmotionSmoother {
+  private config: Required<EmotionSmoothingConfig>;
+  private distribution: EmotionDistribution | null = null;
+  private label: Emotion | null = null;
+  private labelSince = 0;
+  private lastTimestamp = 0;
+  private lastOutput: FusedEmotion | null = null;
+
+  constructor(config: EmotionSmoothingConfig = {}) {
+    this.config = {
+      timeConstantMs: config.timeConstantMs ?? 1500,
+      minDwellMs: config.minDwellMs ?? 1200,
+      switchMargin: config.switchMargin ?? 0.1,
+    };
+  }
+
+  update(input: FusedEmotion | null, timestamp: number): FusedEmotion | null {
+    if (!input) return this.lastOutput;
+
+    // Replaying the same instant (e.g. a state updater invoked twice) must not advance the filter
+    if (this.lastOutput && timestamp <= this.lastTimestamp) return this.lastOutput;
+
+    if (!this.distribution) {
+      this.distribution = { ...input.distribution };
+    } else {
+      const alpha = 1 - Math.exp(-(timestamp - this.lastTimestamp) / this.config.timeConstantMs);
+      const next = { ...this.distribution };
+      for (const emotion of EMOTION_LABELS) {
+        next[emotion] = next[emotion] + alpha * (input.distribution[emotion] - next[emotion]);
+      }
+      this.distribution = normalizeDistribution(next);
+    }
+    this.lastTimestamp = timestamp;
+
+    const leader = dominantEmotion(this.distribution);
+
+    if (!this.label) {
+      this.label = leader.emotion;
+      this.labelSince = timestamp;
+    } else if (leader.emotion !== this.label) {
+      const dwelled = timestamp - this.labelSince >= this.config.minDwellMs;
+      const margin = leader.confidence - this.distribution[this.label];
+      if (dwelled && margin >= this.config.switchMargin) {
+        this.label = leader.emotion;
+        this.labelSince = timestamp;
+      }
+    }
+
+    this.lastOutput = {
+      emotion: this.label,
+      confidence: this.distribution[this.label],
+      distribution: this.distribution,
+    };
+    return this.lastOutput;
+  }
+
+  reset(): void {
+    this.distribution = null;
+    this.label = null;
+    this.labelSince = 0;
+    this.lastTimestamp = 0;
+    this.lastOutput = null;
+  }
+}
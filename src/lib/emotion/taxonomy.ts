@@ -0,0 +1,76 @@
+import type { Emotion, EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotion, VoiceEmotionResult } from '@/services/VoiceAnalysisService';
+
+// Shared label space for fusing facial and voice readings.
+// Facial expressions cover all seven labels; voice only covers five of them,
+// so `surprised` and `disgusted` carry no voice evidence.
+export const EMOTION_LABELS: readonly Emotion[] = [
+  'happy',
+  'sad',
+  'angry',
+  'fearful',
+  'neutral',
+  'surprised',
+  'disgusted',
+];
+
+export const VOICE_EMOTION_LABELS: readonly VoiceEmotion[] = ['happy', 'sad', 'angry', 'fearful', 'neutral'];
+
+export type EmotionDistribution = Record<Emotion, number>;
+
+export function emptyDistribution(): EmotionDistribution {
+  return {
+    happy: 0,
+    sad: 0,
+    angry: 0,
+    fearful: 0,
+    neutral: 0,
+    surprised: 0,
+    disgusted: 0,
+  };
+}
+
+export function uniformDistribution(labels: readonly Emotion[] = EMOTION_LABELS): EmotionDistribution {
+  const distribution = emptyDistribution();
+  for (const label of labels) {
+    distribution[label] = 1 / labels.length;
+  }
+  return distribution;
+}
+
+export function normalizeDistribution(distribution: EmotionDistribution): EmotionDistribution {
+  const total = EMOTION_LABELS.reduce((sum, label) => sum + Math.max(0, distribution[label]), 0);
+  if (total === 0) return uniformDistribution();
+
+  const normalized = emptyDistribution();
+  for (const label of EMOTION_LABELS) {
+    normalized[label] = Math.max(0, distribution[label]) / total;
+  }
+  return normalized;
+}
+
+export function dominantEmotion(distribution: EmotionDistribution): { emotion: Emotion; confidence: number } {
+  let emotion: Emotion = 'neutral';
+  let confidence = 0;
+
+  for (const label of EMOTION_LABELS) {
+    if (distribution[label] > confidence) {
+      confidence = distribution[label];
+      emotion = label;
+    }
+  }
+
+  return { emotion, confidence };
+}
+
+export function facialDistribution(result: EmotionResult): EmotionDistribution {
+  return normalizeDistribution({ ...emptyDistribution(), ...result.all });
+}
+
+export function voiceDistribution(result: VoiceEmotionResult): EmotionDistribution {
+  const distribution = emptyDistribution();
+  for (const label of VOICE_EMOTION_LABELS) {
+    distribution[label] = result.all[label] ?? 0;
+  }
+  return normalizeDistribution(distribution);
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { Emotion, EmotionResult, FaceEngagement } from '@/services/FaceEmotionService';
+import type { VoiceEmotion, VoiceEmotionResult, VoiceMetrics } from '@/services/VoiceAnalysisService';
+import { EmotionTimeline } from '@/lib/emotion/timeline';
+import { emptyDistribution } from '@/lib/emotion/taxonomy';
+
+function facial(timestamp: number, scores: Partial<Record<Emotion, number>>, engagement?: FaceEngagement): EmotionResult {
+  const all = { ...emptyDistribution(), ...scores };
+  const [dominant, confidence] = (Object.entries(all) as [Emotion, number][]).sort((a, b) => b[1] - a[1])[0];
+  return { dominant, confidence, all, timestamp, engagement };
+}
+
+function metrics(overrides: Partial<VoiceMetrics> = {}): VoiceMetrics {
+  return {
+    pitch: 0,
+    voicing: 0,
+    pitchVariation: 0,
+    volume: 0,
+    volumeVariation: 0,
+    speechRate: 0,
+    wordsPerMinute: 0,
+    energy: 0,
+    ...overrides,
+  };
+}
+
+function voice(timestamp: number, scores: Partial<Record<VoiceEmotion, number>>, overrides?: Partial<VoiceMetrics>) {
+  const all = { happy: 0, sad: 0, angry: 0, fearful: 0, neutral: 0, ...scores };
+  const [emotion, confidence] = (Object.entries(all) as [VoiceEmotion, number][]).sort((a, b) => b[1] - a[1])[0];
+  return { emotion, confidence, all, metrics: metrics(overrides), timestamp } satisfies VoiceEmotionResult;
+}
+
+function engagement(yaw: number, blinkRate: number, attention: number): FaceEngagement {
+  return { headPose: { yaw, pitch: 0, roll: 0 }, eyeOpenness: 0.3, blinkRate, attention };
+}
+
+describe('EmotionTimeline', () => {
+  it('keeps readings in arrival order and returns an inclusive range', () => {
+    const timeline = new EmotionTimeline();
+    timeline.addFacial(facial(100, { happy: 1 }));
+    timeline.addVoice(voice(200, { sad: 1 }));
+    timeline.addFacial(facial(300, { angry: 1 }));
+
+    expect(timeline.range().map((e) => e.kind)).toEqual(['facial', 'voice', 'facial']);
+    expect(timeline.range(200, 300).map((e) => e.timestamp)).toEqual([200, 300]);
+    expect(timeline.range(301)).toEqual([]);
+  });
+
+  it('drops the oldest readings past its capacity', () => {
+    const timeline = new EmotionTimeline(2);
+    for (let t = 0; t < 5; t++) timeline.addFacial(facial(t, { happy: 1 }));
+
+    expect(timeline.size).toBe(2);
+    expect(timeline.range().map((e) => e.timestamp)).toEqual([3, 4]);
+  });
+
+  it('summarizes each modality over a window', () => {
+    const timeline = new EmotionTimeline();
+    timeline.addFacial(facial(0, { happy: 0.8, neutral: 0.2 }));
+    timeline.addFacial(facial(100, { happy: 0.6, neutral: 0.4 }));
+    timeline.addFacial(facial(200, { sad: 0.9, neutral: 0.1 }));
+    timeline.addVoice(voice(150, { neutral: 0.7, sad: 0.3 }, { pitch: 100, speechRate: 4 }));
+    timeline.addVoice(voice(250, { neutral: 0.5, sad: 0.5 }, { pitch: 200, speechRate: 2 }));
+
+    const summary = timeline.summarize(0, 300);
+
+    expect(summary.facial!.samples).toBe(3);
+    expect(summary.facial!.mean.happy).toBeCloseTo(1.4 / 3, 6);
+    expect(summary.facial!.dominant).toBe('happy');
+    expect(summary.facial!.dominantShare).toBeCloseTo(2 / 3, 6);
+    expect(summary.facial!.peak).toEqual({ emotion: 'sad', confidence: 0.9, timestamp: 200 });
+
+    expect(summary.voice!.samples).toBe(2);
+    expect(summary.voice!.mean.neutral).toBeCloseTo(0.6, 6);
+    expect(summary.voice!.dominant).toBe('neutral');
+    expect(summary.voice!.meanMetrics.pitch).toBeCloseTo(150, 6);
+    expect(summary.voice!.meanMetrics.speechRate).toBeCloseTo(3, 6);
+  });
+
+  it('averages engagement over the readings that have it, keeping the latest blink rate', () => {
+    const timeline = new EmotionTimeline();
+    timeline.addFacial(facial(0, { neutral: 1 }, engagement(10, 12, 0.8)));
+    timeline.addFacial(facial(100, { neutral: 1 }));
+    timeline.addFacial(facial(200, { neutral: 1 }, engagement(-30, 18, 0.4)));
+
+    const meanEngagement = timeline.summarize(0, 200).facial!.meanEngagement!;
+
+    expect(meanEngagement.headPose.yaw).toBeCloseTo(-10, 6);
+    expect(meanEngagement.attention).toBeCloseTo(0.6, 6);
+    expect(meanEngagement.blinkRate).toBe(18);
+  });
+
+  it('reports a missing modality as null', () => {
+    const timeline = new EmotionTimeline();
+    timeline.addFacial(facial(0, { happy: 1 }));
+
+    const summary = timeline.summarize(0, 100);
+    expect(summary.voice).toBeNull();
+    expect(summary.facial!.meanEngagement).toBeNull();
+    expect(timeline.summarize(500, 600)).toEqual({ from: 500, to: 600, facial: null, voice: null });
+  });
+
+  it('treats metrics missing from old recordings as 0', () => {
+    const timeline = new EmotionTimeline();
+    const legacy = voice(0, { happy: 1 }, { pitch: 120 });
+    delete (legacy.metrics as Partial<VoiceMetrics>).wordsPerMinute;
+    timeline.addVoice(legacy);
+
+    expect(timeline.summarize(0, 0).voice!.meanMetrics.wordsPerMinute).toBe(0);
+  });
+
+  it('forgets everything on clear()', () => {
+    const timeline = new EmotionTimeline();
+    timeline.addFacial(facial(0, { happy: 1 }));
+    timeline.clear();
+
+    expect(timeline.size).toBe(0);
+    expect(timeline.range()).toEqual([]);
+  });
+});
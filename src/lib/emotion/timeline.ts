@@ -0,0 +1,184 @@
+import type { Emotion, EmotionResult, FaceEngagement } from '@/services/FaceEmotionService';
+import type { VoiceEmotion, VoiceEmotionResult, VoiceMetrics } from '@/services/VoiceAnalysisService';
+import { RingBuffer } from '@/lib/ringBuffer';
+import { EMOTION_LABELS, EmotionDistribution, VOICE_EMOTION_LABELS, emptyDistribution } from './taxonomy';
+
+export type TimelineEntry =
+  | { kind: 'facial'; timestamp: number; reading: EmotionResult }
+  | { kind: 'voice'; timestamp: number; reading: VoiceEmotionResult };
+
+export interface EmotionPeak<E extends string> {
+  emotion: E;
+  confidence: number;
+  timestamp: number;
+}
+
+export interface FacialWindowSummary {
+  samples: number;
+  mean: EmotionDistribution;
+  peak: EmotionPeak<Emotion>;
+  // Label that was dominant in the most samples, and the share of samples it won
+  dominant: Emotion;
+  dominantShare: number;
+  // Mean over the readings that carried landmark signals; null without the landmark model
+  meanEngagement: FaceEngagement | null;
+}
+
+export interface VoiceWindowSummary {
+  samples: number;
+  mean: Record<VoiceEmotion, number>;
+  peak: EmotionPeak<VoiceEmotion>;
+  dominant: VoiceEmotion;
+  dominantShare: number;
+  meanMetrics: VoiceMetrics;
+}
+
+export interface EmotionWindowSummary {
+  from: number;
+  to: number;
+  facial: FacialWindowSummary | null;
+  voice: VoiceWindowSummary | null;
+}
+
+function mostFrequent<E extends string>(labels: E[]): { label: E; share: number } {
+  const counts = new Map<E, number>();
+  let best = labels[0];
+  for (const label of labels) {
+    const count = (counts.get(label) ?? 0) + 1;
+    counts.set(label, count);
+    if (count > (counts.get(best) ?? 0)) best = label;
+  }
+  return { label: best, share: (counts.get(best) ?? 0) / labels.length };
+}
+
+function summarizeFacial(readings: EmotionResult[]): FacialWindowSummary | null {
+  if (readings.length === 0) return null;
+
+  const mean = emptyDistribution();
+  let peak = readings[0];
+  for (const reading of readings) {
+    for (const label of EMOTION_LABELS) {
+      mean[label] += reading.all[label] / readings.length;
+    }
+    if (reading.confidence > peak.confidence) peak = reading;
+  }
+
+  const { label, share } = mostFrequent(readings.map((r) => r.dominant));
+
+  return {
+    samples: readings.length,
+    mean,
+    peak: { emotion: peak.dominant, confidence: peak.confidence, timestamp: peak.timestamp },
+    dominant: label,
+    dominantShare: share,
+    meanEngagement: meanEngagement(readings),
+  };
+}
+
+function meanEngagement(readings: EmotionResult[]): FaceEngagement | null {
+  const engaged = readings.flatMap((r) => (r.engagement ? [r.engagement] : []));
+  if (engaged.length === 0) return null;
+
+  const avg = (pick: (e: FaceEngagement) => number) => engaged.reduce((sum, e) => sum + pick(e), 0) / engaged.length;
+  return {
+    headPose: {
+      yaw: avg((e) => e.headPose.yaw),
+      pitch: avg((e) => e.headPose.pitch),
+      roll: avg((e) => e.headPose.roll),
+    },
+    eyeOpenness: avg((e) => e.eyeOpenness),
+    // Already a rolling rate; the latest value is the most complete
+    blinkRate: engaged[engaged.length - 1].blinkRate,
+    attention: avg((e) => e.attention),
+  };
+}
+
+function summarizeVoice(readings: VoiceEmotionResult[]): VoiceWindowSummary | null {
+  if (readings.length === 0) return null;
+
+  const mean = { happy: 0, sad: 0, angry: 0, fearful: 0, neutral: 0 } as Record<VoiceEmotion, number>;
+  const meanMetrics: VoiceMetrics = {
+    pitch: 0,
+    voicing: 0,
+    pitchVariation: 0,
+    volume: 0,
+    volumeVariation: 0,
+    speechRate: 0,
+    wordsPerMinute: 0,
+    energy: 0,
+  };
+  let peak = readings[0];
+
+  for (const reading of readings) {
+    for (const label of VOICE_EMOTION_LABELS) {
+      mean[label] += reading.all[label] / readings.length;
+    }
+    for (const key of Object.keys(meanMetrics) as (keyof VoiceMetrics)[]) {
+      // Recordings made before a metric existed simply lack it
+      meanMetrics[key] += (reading.metrics[key] ?? 0) / readings.length;
+    }
+    if (reading.confidence > peak.confidence) peak = reading;
+  }
+
+  const { label, share } = mostFrequent(readings.map((r) => r.emotion));
+
+  return {
+    samples: readings.length,
+    mean,
+    peak: { emotion: peak.emotion, confidence: peak.confidence, timestamp: peak.timestamp },
+    dominant: label,
+    dominantShare: share,
+    meanMetrics,
+  };
+}
+
+/**
+ * Session-level record of every facial and voice reading, bounded to the
+ * most recent `capacity` entries. Entries are kept in arrival order.
+ */
+export class EmotionTimeline {
+  private buffer: RingBuffer<TimelineEntry>;
+
+  constructor(capacity = 6000) {
+    this.buffer = new RingBuffer(capacity);
+  }
+
+  get size(): number {
+    return this.buffer.size;
+  }
+
+  addFacial(reading: EmotionResult): void {
+    this.buffer.push({ kind: 'facial', timestamp: reading.timestamp, reading });
+  }
+
+  addVoice(reading: VoiceEmotionResult): void {
+    this.buffer.push({ kind: 'voice', timestamp: reading.timestamp, reading });
+  }
+
+  // Entries with from <= timestamp <= to
+  range(from = -Infinity, to = Infinity): TimelineEntry[] {
+    return this.buffer.toArray().filter((entry) => entry.timestamp >= from && entry.timestamp <= to);
+  }
+
+  summarize(from: number, to: number): EmotionWindowSummary {
+    const entries = this.range(from, to);
+    const facial: EmotionResult[] = [];
+    const voice: VoiceEmotionResult[] = [];
+
+    for (const entry of entries) {
+      if (entry.kind === 'facial') facial.push(entry.reading);
+      else voice.push(entry.reading);
+    }
+
+    return {
+      from,
+      to,
+      facial: summarizeFacial(facial),
+      voice: summarizeVoice(voice),
+    };
+  }
+
+  clear(): void {
+    this.buffer.clear();
+  }
+}
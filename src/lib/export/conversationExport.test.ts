@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '@/hooks/useMultimodalAI';
+import type { EmotionResult } from '@/services/FaceEmotionService';
+import type { VoiceEmotionResult } from '@/services/VoiceAnalysisService';
+import { EMOTION_LABELS, emptyDistribution } from '@/lib/emotion/taxonomy';
+import {
+  CONVERSATION_EXPORT_VERSION,
+  exportToCsv,
+  exportToJson,
+  exportToMarkdown,
+  serializeConversation,
+} from '@/lib/export/conversationExport';
+
+const FACIAL: EmotionResult = {
+  dominant: 'happy',
+  confidence: 0.8,
+  all: { ...emptyDistribution(), happy: 0.8, neutral: 0.2 },
+  timestamp: Date.UTC(2024, 0, 1, 12, 0, 0),
+};
+
+const VOICE: VoiceEmotionResult = {
+  emotion: 'neutral',
+  confidence: 0.6,
+  all: { happy: 0.1, sad: 0.1, angry: 0.1, fearful: 0.1, neutral: 0.6 },
+  metrics: {
+    pitch: 180,
+    voicing: 0.9,
+    pitchVariation: 12,
+    volume: 0.1,
+    volumeVariation: 0.02,
+    speechRate: 4.5,
+    wordsPerMinute: 150,
+    energy: 0.3,
+  },
+  timestamp: Date.UTC(2024, 0, 1, 12, 0, 1),
+};
+
+const MESSAGES: Message[] = [
+  {
+    id: 'msg_1',
+    role: 'user',
+    content: 'Hello, "world"\nsecond line',
+    timestamp: Date.UTC(2024, 0, 1, 12, 0, 2),
+    status: 'sent',
+    emotionContext: { facial: FACIAL, voice: VOICE },
+  },
+  {
+    id: 'msg_2',
+    role: 'assistant',
+    content: 'Hi there',
+    timestamp: Date.UTC(2024, 0, 1, 12, 0, 3),
+    interrupted: true,
+  },
+];
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [[]];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      rows[rows.length - 1].push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      rows[rows.length - 1].push(cell);
+      rows.push([]);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  rows[rows.length - 1].push(cell);
+  return rows;
+}
+
+describe('exportToJson', () => {
+  it('wraps the messages with the format, version and metadata', () => {
+    const exported = JSON.parse(exportToJson(MESSAGES, { conversationId: 'conv_1', exportedAt: 0 }));
+
+    expect(exported.format).toBe('sevenpercent.conversation');
+    expect(exported.version).toBe(CONVERSATION_EXPORT_VERSION);
+    expect(exported.exportedAt).toBe('1970-01-01T00:00:00.000Z');
+    expect(exported.conversationId).toBe('conv_1');
+    expect(exported.messages[0].emotionContext.voice.metrics.pitch).toBe(180);
+  });
+
+  it('leaves out the UI-only delivery status', () => {
+    const exported = JSON.parse(exportToJson(MESSAGES));
+
+    expect(exported.messages[0]).not.toHaveProperty('status');
+    expect(exported.conversationId).toBeNull();
+    // The caller's messages are untouched
+    expect(MESSAGES[0].status).toBe('sent');
+  });
+});
+
+describe('exportToMarkdown', () => {
+  const markdown = exportToMarkdown(MESSAGES, { exportedAt: 0 });
+
+  it('quotes every line of a message', () => {
+    expect(markdown).toContain('> Hello, "world"\n> second line');
+  });
+
+  it('labels speakers, interruptions and emotion readings', () => {
+    expect(markdown).toMatch(/\*\*You\*\* · /);
+    expect(markdown).toMatch(/\*\*Assistant\*\* · .* _\(interrupted\)_/);
+    expect(markdown).toContain('_Emotion — face: happy (80%), voice: neutral (60%)_');
+  });
+});
+
+describe('exportToCsv', () => {
+  const rows = parseCsv(exportToCsv(MESSAGES));
+  const [header, facialRow, voiceRow] = rows;
+  const cell = (row: string[], column: string) => row[header.indexOf(column)];
+
+  it('writes one row per reading under a fixed header', () => {
+    expect(header.slice(0, 7)).toEqual([
+      'message_id',
+      'role',
+      'message_time',
+      'reading_time',
+      'source',
+      'emotion',
+      'confidence',
+    ]);
+    expect(header).toEqual(expect.arrayContaining([...EMOTION_LABELS, 'pitch', 'wordsPerMinute']));
+    // The assistant message has no readings
+    expect(rows).toHaveLength(3);
+    expect(rows.every((row) => row.length === header.length)).toBe(true);
+  });
+
+  it('fills emotion columns per source and leaves the rest empty', () => {
+    expect(cell(facialRow, 'source')).toBe('facial');
+    expect(cell(facialRow, 'happy')).toBe('0.8');
+    expect(cell(facialRow, 'pitch')).toBe('');
+
+    expect(cell(voiceRow, 'source')).toBe('voice');
+    expect(cell(voiceRow, 'neutral')).toBe('0.6');
+    // Voice readings have no surprised or disgusted score
+    expect(cell(voiceRow, 'surprised')).toBe('');
+    expect(cell(voiceRow, 'pitch')).toBe('180');
+    expect(cell(voiceRow, 'reading_time')).toBe('2024-01-01T12:00:01.000Z');
+  });
+
+  it('quotes cells with commas, quotes or newlines', () => {
+    const csv = exportToCsv([{ ...MESSAGES[0], id: 'a,"b"\nc' }]);
+
+    expect(csv.split('\n')[1].startsWith('"a,""b""')).toBe(true);
+    expect(parseCsv(csv)[1][0]).toBe('a,"b"\nc');
+  });
+});
+
+describe('serializeConversation', () => {
+  it('dispatches on the format', () => {
+    expect(serializeConversation(MESSAGES, 'csv')).toBe(exportToCsv(MESSAGES));
+    expect(serializeConversation(MESSAGES, 'markdown', { exportedAt: 0 })).toBe(
+      exportToMarkdown(MESSAGES, { exportedAt: 0 })
+    );
+  });
+});
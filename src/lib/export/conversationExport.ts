@@ -0,0 +1,174 @@
+import type { Message } from '@/hooks/useMultimodalAI';
+import { EMOTION_LABELS } from '@/lib/emotion/taxonomy';
+import type { VoiceMetrics } from '@/services/VoiceAnalysisService';
+
+// Bump when the JSON shape changes so research scripts can branch on it
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'csv';
+
+export interface ConversationExportMeta {
+  conversationId?: string | null;
+  exportedAt?: number;
+}
+
+export interface ConversationExport {
+  format: 'sevenpercent.conversation';
+  version: typeof CONVERSATION_EXPORT_VERSION;
+  exportedAt: string;
+  conversationId: string | null;
+  // Without the UI-only delivery status
+  messages: Omit<Message, 'status'>[];
+}
+
+export function exportToJson(messages: Message[], meta: ConversationExportMeta = {}): string {
+  const payload: ConversationExport = {
+    format: 'sevenpercent.conversation',
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date(meta.exportedAt ?? Date.now()).toISOString(),
+    conversationId: meta.conversationId ?? null,
+    messages: messages.map((message) => {
+      const exported = { ...message };
+      delete exported.status;
+      return exported;
+    }),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function exportToMarkdown(messages: Message[], meta: ConversationExportMeta = {}): string {
+  const exportedAt = new Date(meta.exportedAt ?? Date.now());
+  const lines = [`# Conversation transcript`, '', `_Exported ${exportedAt.toLocaleString()}_`, ''];
+
+  for (const message of messages) {
+    const time = new Date(message.timestamp).toLocaleTimeString();
+    const interrupted = message.interrupted ? ' _(interrupted)_' : '';
+    lines.push(`**${message.role === 'user' ? 'You' : 'Assistant'}** · ${time}${interrupted}`, '');
+    lines.push(...message.content.split('\n').map((line) => `> ${line}`), '');
+
+    const facial = message.emotionContext?.facial;
+    const voice = message.emotionContext?.voice;
+    if (facial || voice) {
+      const parts = [
+        facial && `face: ${facial.dominant} (${percent(facial.confidence)})`,
+        voice && `voice: ${voice.emotion} (${percent(voice.confidence)})`,
+      ].filter(Boolean);
+      lines.push(`_Emotion — ${parts.join(', ')}_`, '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+const METRIC_KEYS: (keyof VoiceMetrics)[] = [
+  'pitch',
+  'voicing',
+  'pitchVariation',
+  'volume',
+  'volumeVariation',
+  'speechRate',
+  'wordsPerMinute',
+  'energy',
+];
+
+const CSV_COLUMNS = [
+  'message_id',
+  'role',
+  'message_time',
+  'reading_time',
+  'source',
+  'emotion',
+  'confidence',
+  ...EMOTION_LABELS,
+  ...METRIC_KEYS,
+];
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per facial or voice reading attached to a message
+export function exportToCsv(messages: Message[]): string {
+  const rows: (string | number | null)[][] = [];
+
+  for (const message of messages) {
+    const base = [message.id, message.role, new Date(message.timestamp).toISOString()];
+    const facial = message.emotionContext?.facial;
+    const voice = message.emotionContext?.voice;
+
+    if (facial) {
+      rows.push([
+        ...base,
+        new Date(facial.timestamp).toISOString(),
+        'facial',
+        facial.dominant,
+        facial.confidence,
+        ...EMOTION_LABELS.map((label) => facial.all[label]),
+        ...METRIC_KEYS.map(() => null),
+      ]);
+    }
+
+    if (voice) {
+      rows.push([
+        ...base,
+        new Date(voice.timestamp).toISOString(),
+        'voice',
+        voice.emotion,
+        voice.confidence,
+        ...EMOTION_LABELS.map((label) => (label in voice.all ? voice.all[label as keyof typeof voice.all] : null)),
+        ...METRIC_KEYS.map((key) => voice.metrics[key]),
+      ]);
+    }
+  }
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+};
+
+export function serializeConversation(
+  messages: Message[],
+  format: ExportFormat,
+  meta: ConversationExportMeta = {}
+): string {
+  switch (format) {
+    case 'json':
+      return exportToJson(messages, meta);
+    case 'markdown':
+      return exportToMarkdown(messages, meta);
+    case 'csv':
+      return exportToCsv(messages);
+  }
+}
+
+export function downloadConversation(
+  messages: Message[],
+  format: ExportFormat,
+  meta: ConversationExportMeta = {}
+): void {
+  const { extension, mimeType } = FORMATS[format];
+  const content = serializeConversation(messages, format, meta);
+  const stamp = new Date(meta.exportedAt ?? Date.now()).toISOString().replace(/[:.]/g, '-');
+
+  downloadFile(content, `conversation-${stamp}.${extension}`, mimeType);
+}
+
+const REVOKE_DELAY_MS = 10000;
+
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,71 @@
+// Shared by FaceEmotionService and the detection worker: detection results, turning expression
+// scores into an EmotionResult, and the messages exchanged with the worker.
+
+import type { Emotion, EmotionResult } from '@/services/FaceEmotionService';
+import type { HeadPose } from '@/lib/face/landmarks';
+
+export type ExpressionScores = Record<Emotion, number>;
+
+export interface FaceDetectionOptions {
+  // detectAllFaces instead of detectSingleFace
+  multiFace: boolean;
+  // Also run the 68-point landmark model
+  landmarks: boolean;
+}
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// Normalized to the frame: [0, 1] on both axes
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedFace {
+  box: FaceBox;
+  // 68 points, normalized like the box
+  landmarks?: Point2D[];
+  // Per-frame geometry from the landmarks, measured in pixels
+  geometry?: { headPose: HeadPose; eyeOpenness: number };
+  result: EmotionResult;
+}
+
+export function toEmotionResult(expressions: ExpressionScores, timestamp: number): EmotionResult {
+  const all: ExpressionScores = {
+    happy: expressions.happy,
+    sad: expressions.sad,
+    angry: expressions.angry,
+    fearful: expressions.fearful,
+    neutral: expressions.neutral,
+    surprised: expressions.surprised,
+    disgusted: expressions.disgusted,
+  };
+
+  // Find dominant emotion
+  let dominant: Emotion = 'neutral';
+  let maxScore = 0;
+
+  for (const [emotion, score] of Object.entries(all)) {
+    if (score > maxScore) {
+      maxScore = score;
+      dominant = emotion as Emotion;
+    }
+  }
+
+  return { dominant, confidence: maxScore, all, timestamp };
+}
+
+export type FaceWorkerCommand =
+  | { type: 'init'; id: number; modelsPath: string; options: FaceDetectionOptions }
+  // The frame is transferred, and closed by the worker once used
+  | { type: 'detect'; id: number; frame: ImageBitmap; timestamp: number; options: FaceDetectionOptions };
+
+export type FaceWorkerMessage =
+  | { type: 'ready'; id: number; landmarks: boolean }
+  | { type: 'result'; id: number; faces: DetectedFace[] }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,70 @@
+// Dedicated worker running face-api.js inference on frames grabbed from the <video>.
+// Spawned by FaceEmotionService when OffscreenCanvas and createImageBitmap are available.
+
+import * as faceapi from 'face-api.js';
+import type { FaceDetectionOptions, FaceWorkerCommand, FaceWorkerMessage } from '@/lib/face/detection';
+import { detectFaces, loadFaceModels } from '@/lib/face/inference';
+
+// face-api.js only recognizes browser and Node environments; give it the worker's primitives.
+// Frames are passed as tensors, so it never needs to create images or read files.
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: class {} as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: class {} as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('Images are not available in the face detection worker');
+  },
+  fetch: (url: string, init?: RequestInit) => fetch(url, init),
+  readFile: () => Promise.reject(new Error('File access is not available in the face detection worker')),
+});
+
+let canvas: OffscreenCanvas | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+
+function toPixels(frame: ImageBitmap): ImageData {
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+    context = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  if (!context) throw new Error('2D context unavailable on OffscreenCanvas');
+
+  context.drawImage(frame, 0, 0);
+  return context.getImageData(0, 0, frame.width, frame.height);
+}
+
+async function detect(frame: ImageBitmap, timestamp: number, options: FaceDetectionOptions) {
+  let input: faceapi.tf.Tensor3D | null = null;
+  try {
+    input = faceapi.tf.browser.fromPixels(toPixels(frame));
+    return await detectFaces(input, frame, timestamp, options);
+  } finally {
+    input?.dispose();
+    frame.close();
+  }
+}
+
+const reply = (message: FaceWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<FaceWorkerCommand>) => {
+  const command = event.data;
+
+  try {
+    switch (command.type) {
+      case 'init':
+        reply({ type: 'ready', id: command.id, landmarks: await loadFaceModels(command.modelsPath, command.options) });
+        break;
+      case 'detect':
+        reply({
+          type: 'result',
+          id: command.id,
+          faces: await detect(command.frame, command.timestamp, command.options),
+        });
+        break;
+    }
+  } catch (error) {
+    reply({ type: 'error', id: command.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
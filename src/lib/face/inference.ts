@@ -0,0 +1,70 @@
+// face-api.js model loading and detection, shared by the main-thread path and the worker.
+
+import * as faceapi from 'face-api.js';
+import { toEmotionResult, type DetectedFace, type FaceDetectionOptions } from '@/lib/face/detection';
+import { estimateHeadPose, eyeOpenness } from '@/lib/face/landmarks';
+
+/**
+ * Loads the detector and expression models. The landmark model is optional: when its weights
+ * aren't deployed, detection carries on without landmarks and this resolves to `false`.
+ */
+export async function loadFaceModels(modelsPath: string, options: FaceDetectionOptions): Promise<boolean> {
+  await Promise.all([
+    faceapi.nets.tinyFaceDetector.loadFromUri(modelsPath),
+    faceapi.nets.faceExpressionNet.loadFromUri(modelsPath),
+  ]);
+
+  if (!options.landmarks) return false;
+  try {
+    await faceapi.nets.faceLandmark68TinyNet.loadFromUri(modelsPath);
+    return true;
+  } catch (error) {
+    console.warn('[FaceEmotionService] Landmark model unavailable, continuing without landmarks:', error);
+    return false;
+  }
+}
+
+type FaceApiResult = faceapi.WithFaceExpressions<{
+  detection: faceapi.FaceDetection;
+  landmarks?: faceapi.FaceLandmarks68;
+}>;
+
+async function runFaceApi(input: faceapi.TNetInput, options: FaceDetectionOptions): Promise<FaceApiResult[]> {
+  const detectorOptions = new faceapi.TinyFaceDetectorOptions();
+
+  if (options.multiFace) {
+    const task = faceapi.detectAllFaces(input, detectorOptions);
+    return options.landmarks ? task.withFaceLandmarks(true).withFaceExpressions() : task.withFaceExpressions();
+  }
+
+  const task = faceapi.detectSingleFace(input, detectorOptions);
+  const single = options.landmarks
+    ? await task.withFaceLandmarks(true).withFaceExpressions()
+    : await task.withFaceExpressions();
+  return single ? [single] : [];
+}
+
+/**
+ * Detects faces in a frame of the given size. Boxes and landmarks are normalized to [0, 1].
+ */
+export async function detectFaces(
+  input: faceapi.TNetInput,
+  frame: { width: number; height: number },
+  timestamp: number,
+  options: FaceDetectionOptions
+): Promise<DetectedFace[]> {
+  const results = await runFaceApi(input, options);
+
+  return results.map(({ detection, expressions, landmarks }) => {
+    const { x, y, width, height } = detection.box;
+    return {
+      box: { x: x / frame.width, y: y / frame.height, width: width / frame.width, height: height / frame.height },
+      landmarks: landmarks?.positions.map((p) => ({ x: p.x / frame.width, y: p.y / frame.height })),
+      geometry: landmarks && {
+        headPose: estimateHeadPose(landmarks.positions),
+        eyeOpenness: eyeOpenness(landmarks.positions),
+      },
+      result: toEmotionResult(expressions, timestamp),
+    };
+  });
+}
@@ -0,0 +1,78 @@
+// Geometry on the 68-point landmark layout (iBUG 300-W): head pose and eye openness.
+// Points must be in an aspect-correct space (pixels), not normalized per axis.
+//
+// Head pose is estimated from 2D proportions rather than a 3D model fit, so angles are
+// approximate; they are good enough to tell "facing the screen" from "looking away".
+
+import type { Point2D } from '@/lib/face/detection';
+
+export interface HeadPose {
+  // Degrees; positive yaw turns toward the image's right, positive pitch looks down
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+const JAW_LEFT = 0;
+const JAW_RIGHT = 16;
+const CHIN = 8;
+const NOSE_TIP = 30;
+const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+
+// Nose tip position between the eye line and the chin on a frontal face
+const NEUTRAL_NOSE_RATIO = 0.42;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function centroid(points: Point2D[]): Point2D {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+// Eye aspect ratio (Soukupová & Čech, 2016): about 0.3 when open, under 0.2 when closed
+function eyeAspectRatio(points: Point2D[], indices: number[]): number {
+  const [p1, p2, p3, p4, p5, p6] = indices.map((i) => points[i]);
+  const width = distance(p1, p4);
+  return width > 0 ? (distance(p2, p6) + distance(p3, p5)) / (2 * width) : 0;
+}
+
+export function eyeOpenness(points: Point2D[]): number {
+  return (eyeAspectRatio(points, LEFT_EYE) + eyeAspectRatio(points, RIGHT_EYE)) / 2;
+}
+
+export function estimateHeadPose(points: Point2D[]): HeadPose {
+  const leftEye = centroid(LEFT_EYE.map((i) => points[i]));
+  const rightEye = centroid(RIGHT_EYE.map((i) => points[i]));
+  const roll = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+
+  // Undo the roll around the eye midpoint so yaw and pitch are measured on an upright face
+  const origin = { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 };
+  const cos = Math.cos(-roll);
+  const sin = Math.sin(-roll);
+  const upright = (p: Point2D): Point2D => ({
+    x: origin.x + (p.x - origin.x) * cos - (p.y - origin.y) * sin,
+    y: origin.y + (p.x - origin.x) * sin + (p.y - origin.y) * cos,
+  });
+
+  const nose = upright(points[NOSE_TIP]);
+  const jawLeft = upright(points[JAW_LEFT]);
+  const jawRight = upright(points[JAW_RIGHT]);
+  const chin = upright(points[CHIN]);
+
+  // The nose drifts toward the side the head turns to, relative to the jaw outline
+  const faceWidth = jawRight.x - jawLeft.x;
+  const horizontal = faceWidth > 0 ? ((nose.x - jawLeft.x) / faceWidth - 0.5) * 2 : 0;
+
+  // ...and toward the chin or the eyes when the head tilts down or up
+  const faceHeight = chin.y - origin.y;
+  const vertical = faceHeight > 0 ? ((nose.y - origin.y) / faceHeight - NEUTRAL_NOSE_RATIO) * 2 : 0;
+
+  return {
+    yaw: toDegrees(Math.asin(clamp(horizontal, -1, 1))),
+    pitch: toDegrees(Math.asin(clamp(vertical, -1, 1))),
+    roll: toDegrees(roll),
+  };
+}
@@ -0,0 +1,116 @@
+// Picks the delay before the next face detection from how long inference takes, whether the tab
+// is visible, and how fast the expression distribution is changing.
+
+import type { Emotion, EmotionResult } from '@/services/FaceEmotionService';
+
+export interface FrameSchedulerConfig {
+  // Delay while the expression is steady
+  baseInterval?: number;
+  // Bounds for the adaptive delay
+  minInterval?: number;
+  maxInterval?: number;
+  // Delay while the tab is hidden
+  hiddenInterval?: number;
+  // Inference may use at most this share of wall time; slower devices get longer delays
+  maxLoad?: number;
+  // Mean absolute change per emotion between readings above which detection speeds up
+  changeThreshold?: number;
+}
+
+export interface FaceDetectionStats {
+  // Detections actually completed per second over the last few seconds
+  fps: number;
+  // Smoothed and most recent inference time
+  latencyMs: number;
+  lastLatencyMs: number;
+  // Delay currently applied between detections
+  intervalMs: number;
+}
+
+const STATS_WINDOW_MS = 5000;
+const LATENCY_SMOOTHING = 0.2;
+const CHANGE_SMOOTHING = 0.4;
+
+export class AdaptiveFrameScheduler {
+  private config: Required<FrameSchedulerConfig>;
+  private interval: number;
+  private latency = 0;
+  private lastLatency = 0;
+  private change = 0;
+  private previous: Record<Emotion, number> | null = null;
+  private completedAt: number[] = [];
+
+  constructor(config: FrameSchedulerConfig = {}) {
+    this.config = {
+      baseInterval: config.baseInterval ?? 500,
+      minInterval: config.minInterval ?? 150,
+      maxInterval: config.maxInterval ?? 2000,
+      hiddenInterval: config.hiddenInterval ?? 3000,
+      maxLoad: config.maxLoad ?? 0.5,
+      changeThreshold: config.changeThreshold ?? 0.05,
+    };
+    this.interval = this.config.baseInterval;
+  }
+
+  /**
+   * Records a finished detection (`result` is null when no face was found)
+   * and returns the delay before the next one.
+   */
+  next(latencyMs: number, result: EmotionResult | null, hidden = false): number {
+    const now = Date.now();
+    const { baseInterval, minInterval, maxInterval, hiddenInterval, maxLoad, changeThreshold } = this.config;
+
+    this.lastLatency = latencyMs;
+    this.latency = this.latency === 0 ? latencyMs : this.latency + LATENCY_SMOOTHING * (latencyMs - this.latency);
+    this.completedAt.push(now);
+    while (this.completedAt[0] < now - STATS_WINDOW_MS) this.completedAt.shift();
+
+    const previous = this.previous;
+    if (result) {
+      if (previous) {
+        const labels = Object.keys(result.all) as Emotion[];
+        const delta = labels.reduce((sum, label) => sum + Math.abs(result.all[label] - previous[label]), 0);
+        this.change += CHANGE_SMOOTHING * (delta / labels.length - this.change);
+      }
+      this.previous = result.all;
+    } else {
+      this.previous = null;
+      this.change = 0;
+    }
+
+    if (hidden) {
+      this.interval = hiddenInterval;
+      return this.interval;
+    }
+
+    // Changing faces get the fastest rate, steady ones settle back to the base rate
+    const target = this.change > changeThreshold ? minInterval : baseInterval;
+    // Keep inference under maxLoad of wall time: busy time / (busy + idle) <= maxLoad
+    const loadFloor = (this.latency * (1 - maxLoad)) / maxLoad;
+
+    this.interval += 0.5 * (target - this.interval);
+    this.interval = Math.min(maxInterval, Math.max(minInterval, loadFloor, this.interval));
+    return this.interval;
+  }
+
+  getStats(now = Date.now()): FaceDetectionStats {
+    const recent = this.completedAt.filter((t) => t >= now - STATS_WINDOW_MS);
+    const span = recent.length > 1 ? recent[recent.length - 1] - recent[0] : 0;
+
+    return {
+      fps: span > 0 ? ((recent.length - 1) * 1000) / span : 0,
+      latencyMs: this.latency,
+      lastLatencyMs: this.lastLatency,
+      intervalMs: this.interval,
+    };
+  }
+
+  reset(): void {
+    this.interval = this.config.baseInterval;
+    this.latency = 0;
+    this.lastLatency = 0;
+    this.change = 0;
+    this.previous = null;
+    this.completedAt = [];
+  }
+}
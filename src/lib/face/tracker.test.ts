@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedFace, FaceBox, Point2D } from '@/lib/face/detection';
+import { emptyDistribution } from '@/lib/emotion/taxonomy';
+import { FaceTracker, mouthOpenness, type TrackedFace } from '@/lib/face/tracker';
+
+// 68 points at the origin except the inner lips: corners 0.1 apart, lips `gap` apart
+function landmarks(gap: number): Point2D[] {
+  const points = Array.from({ length: 68 }, () => ({ x: 0, y: 0 }));
+  points[60] = { x: 0.45, y: 0.6 };
+  points[64] = { x: 0.55, y: 0.6 };
+  points[62] = { x: 0.5, y: 0.6 - gap / 2 };
+  points[66] = { x: 0.5, y: 0.6 + gap / 2 };
+  return points;
+}
+
+function face(box: FaceBox, extra: Partial<DetectedFace> = {}): DetectedFace {
+  return {
+    box,
+    result: { dominant: 'neutral', confidence: 1, all: { ...emptyDistribution(), neutral: 1 }, timestamp: 0 },
+    ...extra,
+  };
+}
+
+const shifted = (box: FaceBox, dx: number): FaceBox => ({ ...box, x: box.x + dx });
+
+// Large and centered, and small in a corner
+const CENTER: FaceBox = { x: 0.35, y: 0.3, width: 0.3, height: 0.4 };
+const CORNER: FaceBox = { x: 0.02, y: 0.05, width: 0.12, height: 0.16 };
+
+describe('mouthOpenness', () => {
+  it('is the inner-lip gap over the mouth width', () => {
+    expect(mouthOpenness(landmarks(0.05))).toBeCloseTo(0.5, 6);
+    expect(mouthOpenness(landmarks(0))).toBe(0);
+  });
+});
+
+describe('FaceTracker', () => {
+  it('keeps a face’s id while its box moves a little', () => {
+    const tracker = new FaceTracker();
+    const [first] = tracker.update([face(CENTER)], 0, false);
+    const [second] = tracker.update([face(shifted(CENTER, 0.03))], 100, false);
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it('gives a new id to a face that jumped too far to overlap', () => {
+    const tracker = new FaceTracker();
+    const [first] = tracker.update([face(CENTER)], 0, false);
+    const [second] = tracker.update([face(shifted(CENTER, 0.4))], 100, false);
+
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('matches each track to its best-overlapping detection when faces cross', () => {
+    const tracker = new FaceTracker();
+    const left: FaceBox = { x: 0.1, y: 0.3, width: 0.25, height: 0.3 };
+    const right: FaceBox = { x: 0.3, y: 0.3, width: 0.25, height: 0.3 };
+    const [a, b] = tracker.update([face(left), face(right)], 0, false);
+    // Listed in the other order, each slightly moved
+    const next = tracker.update([face(shifted(right, 0.02)), face(shifted(left, 0.02))], 100, false);
+    const idAt = (box: FaceBox) => next.find((f) => f.box.x === box.x + 0.02)?.id;
+
+    expect(idAt(left)).toBe(a.id);
+    expect(idAt(right)).toBe(b.id);
+  });
+
+  it('drops tracks missing for longer than maxMissingMs', () => {
+    const tracker = new FaceTracker({ maxMissingMs: 1000 });
+    const [first] = tracker.update([face(CENTER)], 0, false);
+    tracker.update([], 500, false);
+    expect(tracker.update([face(CENTER)], 900, false)[0].id).toBe(first.id);
+
+    tracker.update([], 2000, false);
+    expect(tracker.update([face(CENTER)], 2100, false)[0].id).not.toBe(first.id);
+  });
+
+  it('makes the most prominent face primary', () => {
+    const tracker = new FaceTracker();
+    const faces = tracker.update([face(CORNER), face(CENTER)], 0, false);
+
+    expect(faces.filter((f) => f.isPrimary)).toHaveLength(1);
+    expect(faces[1].isPrimary).toBe(true);
+  });
+
+  it('keeps the current primary until another face is clearly ahead', () => {
+    const tracker = new FaceTracker({ switchMargin: 1.25 });
+    const first: FaceBox = { x: 0.1, y: 0.3, width: 0.3, height: 0.4 };
+    const second: FaceBox = { x: 0.6, y: 0.3, width: 0.3, height: 0.4 };
+    const [firstId] = tracker.update([face(first), face(second)], 0, false).map((f) => f.id);
+    const primaryId = (faces: TrackedFace[]) => faces.find((f) => f.isPrimary)?.id;
+
+    // Slightly larger: not enough to take over
+    const close = tracker.update([face(first), face({ ...second, width: 0.32 })], 100, false);
+    expect(primaryId(close)).toBe(firstId);
+
+    const clear = tracker.update([face(first), face({ ...second, x: 0.5, width: 0.45, height: 0.5 })], 200, false);
+    expect(primaryId(clear)).not.toBe(firstId);
+  });
+
+  it('follows the face whose mouth moves with the voice under the speaker strategy', () => {
+    const tracker = new FaceTracker({ primaryFace: 'speaker' });
+    let open = false;
+    const frame = (voiceActive: boolean, timestamp: number) =>
+      tracker.update(
+        [face(CENTER, { landmarks: landmarks(0.01) }), face(CORNER, { landmarks: landmarks(open ? 0.06 : 0.01) })],
+        timestamp,
+        voiceActive
+      );
+
+    let faces = frame(false, 0);
+    const [center, corner] = faces.map((f) => f.id);
+    const byId = (id: number) => faces.find((f) => f.id === id)!;
+    // Too little history yet: the prominent face leads
+    expect(byId(center).isPrimary).toBe(true);
+
+    // The corner face's mouth opens or closes on every frame with speech, the other's never moves
+    for (let i = 1; i <= 12; i++) {
+      const voiceActive = i % 4 < 2;
+      if (voiceActive) open = !open;
+      faces = frame(voiceActive, i * 100);
+    }
+
+    expect(byId(corner).isPrimary).toBe(true);
+    expect(byId(corner).speakingScore).toBeGreaterThan(0.9);
+    expect(byId(center).speakingScore).toBe(0);
+  });
+
+  it('counts blinks and scores attention from the landmark geometry', () => {
+    const tracker = new FaceTracker();
+    const pose = { yaw: 0, pitch: 0, roll: 0 };
+    const eyes = [0.3, 0.1, 0.3, 0.3];
+    let engagement;
+    for (const [i, eyeOpenness] of eyes.entries()) {
+      const [tracked] = tracker.update([face(CENTER, { geometry: { headPose: pose, eyeOpenness } })], i * 100, false);
+      engagement = tracked.result.engagement;
+    }
+
+    // One blink over the minimum 10 s of observation
+    expect(engagement!.blinkRate).toBeCloseTo(6, 6);
+    expect(engagement!.attention).toBeGreaterThan(0.5);
+
+    const lookingAway = face(CENTER, { geometry: { headPose: { ...pose, yaw: 60 }, eyeOpenness: 0.3 } });
+    const away = tracker.update([lookingAway], 400, false);
+    expect(away[0].result.engagement!.attention).toBeLessThan(engagement!.attention);
+  });
+
+  it('leaves readings without geometry as they are', () => {
+    const tracker = new FaceTracker();
+    const detected = face(CENTER);
+
+    expect(tracker.update([detected], 0, false)[0].result).toBe(detected.result);
+  });
+
+  it('forgets every track on reset()', () => {
+    const tracker = new FaceTracker();
+    const [first] = tracker.update([face(CENTER)], 0, false);
+    tracker.reset();
+
+    expect(tracker.update([face(CENTER)], 100, false)[0].id).not.toBe(first.id);
+  });
+});
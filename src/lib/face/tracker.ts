@@ -0,0 +1,264 @@
+// Keeps stable IDs for faces across detections and picks the primary participant.
+//
+// Faces are matched frame to frame by box overlap. The primary face is either the most prominent
+// one (large and near the center) or, with landmarks, the one whose mouth moves while the VAD
+// hears speech. With landmarks, each track also accumulates blinks and attention over time.
+
+import type { EmotionResult, FaceEngagement } from '@/services/FaceEmotionService';
+import type { DetectedFace, FaceBox, Point2D } from '@/lib/face/detection';
+
+export type PrimaryFaceStrategy = 'prominent' | 'speaker';
+
+export interface FaceTrackerConfig {
+  primaryFace?: PrimaryFaceStrategy;
+  // Minimum box overlap (IoU) for a detection to continue an existing track
+  minOverlap?: number;
+  // A track not seen for this long is dropped
+  maxMissingMs?: number;
+  // Mouth/voice samples kept per track for the speaker correlation
+  historySize?: number;
+  // A challenger must beat the current primary's score by this factor to take over
+  switchMargin?: number;
+}
+
+export interface TrackedFace {
+  id: number;
+  box: FaceBox;
+  landmarks?: Point2D[];
+  result: EmotionResult;
+  isPrimary: boolean;
+  // Inner-lip gap over mouth width; only with landmarks
+  mouthOpenness?: number;
+  // Correlation of mouth movement with voice activity, in [-1, 1]; only with landmarks
+  speakingScore?: number;
+}
+
+interface Track {
+  id: number;
+  face: DetectedFace;
+  lastSeen: number;
+  firstSeen: number;
+  mouth: number[];
+  voice: number[];
+  blinks: number[];
+  eyesClosed: boolean;
+  attention: number | null;
+}
+
+// Indices into the 68-point layout: inner lip corners and inner lip midpoints
+const INNER_LIP_LEFT = 60;
+const INNER_LIP_RIGHT = 64;
+const INNER_LIP_TOP = 62;
+const INNER_LIP_BOTTOM = 66;
+
+const MIN_SPEAKER_SAMPLES = 8;
+const MIN_SPEAKER_CORRELATION = 0.2;
+
+// Eye aspect ratio thresholds with hysteresis, so one blink isn't counted twice
+const EYES_CLOSED_BELOW = 0.2;
+const EYES_OPEN_ABOVE = 0.25;
+const BLINK_WINDOW_MS = 60000;
+// Blink rates over less observation than this are too noisy
+const MIN_BLINK_OBSERVATION_MS = 10000;
+// Beyond these angles the user is no longer looking at the screen
+const MAX_ATTENTIVE_YAW = 40;
+const MAX_ATTENTIVE_PITCH = 30;
+const ATTENTION_SMOOTHING = 0.3;
+
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function mouthOpenness(landmarks: Point2D[]): number {
+  const width = distance(landmarks[INNER_LIP_LEFT], landmarks[INNER_LIP_RIGHT]);
+  return width > 0 ? distance(landmarks[INNER_LIP_TOP], landmarks[INNER_LIP_BOTTOM]) / width : 0;
+}
+
+function overlap(a: FaceBox, b: FaceBox): number {
+  const x = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const y = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = x * y;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// Large faces near the center of the frame score highest
+function prominence(box: FaceBox): number {
+  const dx = box.x + box.width / 2 - 0.5;
+  const dy = box.y + box.height / 2 - 0.5;
+  const centered = 1 - Math.min(1, Math.hypot(dx, dy) / Math.SQRT1_2);
+  return box.width * box.height * (0.5 + 0.5 * centered);
+}
+
+function correlation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = a.slice(-n).reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.slice(-n).reduce((sum, v) => sum + v, 0) / n;
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[a.length - n + i] - meanA;
+    const db = b[b.length - n + i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+}
+
+export class FaceTracker {
+  private config: Required<FaceTrackerConfig>;
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private primaryId: number | null = null;
+
+  constructor(config: FaceTrackerConfig = {}) {
+    this.config = {
+      primaryFace: config.primaryFace ?? 'prominent',
+      minOverlap: config.minOverlap ?? 0.3,
+      maxMissingMs: config.maxMissingMs ?? 1500,
+      historySize: config.historySize ?? 30,
+      switchMargin: config.switchMargin ?? 1.25,
+    };
+  }
+
+  setPrimaryFace(strategy: PrimaryFaceStrategy): void {
+    this.config.primaryFace = strategy;
+  }
+
+  /**
+   * Matches this frame's detections to existing tracks and returns the faces seen in it.
+   */
+  update(faces: DetectedFace[], timestamp: number, voiceActive: boolean): TrackedFace[] {
+    const unmatched = new Set(this.tracks);
+    const seen: Track[] = [];
+
+    // Greedy matching, best overlaps first
+    const pairs: { track: Track; face: DetectedFace; score: number }[] = [];
+    for (const track of this.tracks) {
+      for (const face of faces) {
+        const score = overlap(track.face.box, face.box);
+        if (score >= this.config.minOverlap) pairs.push({ track, face, score });
+      }
+    }
+    pairs.sort((a, b) => b.score - a.score);
+
+    const assigned = new Set<DetectedFace>();
+    for (const { track, face } of pairs) {
+      if (!unmatched.has(track) || assigned.has(face)) continue;
+      unmatched.delete(track);
+      assigned.add(face);
+      track.face = face;
+      track.lastSeen = timestamp;
+      seen.push(track);
+    }
+
+    for (const face of faces) {
+      if (assigned.has(face)) continue;
+      const track: Track = {
+        id: this.nextId++,
+        face,
+        lastSeen: timestamp,
+        firstSeen: timestamp,
+        mouth: [],
+        voice: [],
+        blinks: [],
+        eyesClosed: false,
+        attention: null,
+      };
+      this.tracks.push(track);
+      seen.push(track);
+    }
+
+    this.tracks = this.tracks.filter((t) => timestamp - t.lastSeen <= this.config.maxMissingMs);
+
+    for (const track of seen) {
+      if (!track.face.landmarks) continue;
+      track.mouth.push(mouthOpenness(track.face.landmarks));
+      track.voice.push(voiceActive ? 1 : 0);
+      if (track.mouth.length > this.config.historySize) track.mouth.shift();
+      if (track.voice.length > this.config.historySize) track.voice.shift();
+    }
+
+    this.primaryId = this.selectPrimary(seen);
+
+    return seen.map((track) => ({
+      id: track.id,
+      box: track.face.box,
+      landmarks: track.face.landmarks,
+      result: this.withEngagement(track, timestamp),
+      isPrimary: track.id === this.primaryId,
+      mouthOpenness: track.mouth.length > 0 ? track.mouth[track.mouth.length - 1] : undefined,
+      speakingScore: track.mouth.length > 0 ? this.speakingScore(track) : undefined,
+    }));
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.primaryId = null;
+  }
+
+  private withEngagement(track: Track, timestamp: number): EmotionResult {
+    const geometry = track.face.geometry;
+    if (!geometry) return track.face.result;
+
+    const { headPose, eyeOpenness } = geometry;
+
+    if (!track.eyesClosed && eyeOpenness < EYES_CLOSED_BELOW) {
+      track.eyesClosed = true;
+    } else if (track.eyesClosed && eyeOpenness > EYES_OPEN_ABOVE) {
+      track.eyesClosed = false;
+      track.blinks.push(timestamp);
+    }
+    while (track.blinks.length > 0 && track.blinks[0] < timestamp - BLINK_WINDOW_MS) track.blinks.shift();
+
+    const observedMs = Math.min(BLINK_WINDOW_MS, Math.max(MIN_BLINK_OBSERVATION_MS, timestamp - track.firstSeen));
+    const blinkRate = track.blinks.length / (observedMs / 60000);
+
+    const facing = Math.max(
+      0,
+      1 - Math.max(Math.abs(headPose.yaw) / MAX_ATTENTIVE_YAW, Math.abs(headPose.pitch) / MAX_ATTENTIVE_PITCH)
+    );
+    const eyesOpen = Math.min(1, Math.max(0, (eyeOpenness - 0.15) / 0.1));
+    const instant = facing * eyesOpen;
+    track.attention = track.attention === null ? instant : track.attention + ATTENTION_SMOOTHING * (instant - track.attention);
+
+    const engagement: FaceEngagement = { headPose, eyeOpenness, blinkRate, attention: track.attention };
+    return { ...track.face.result, engagement };
+  }
+
+  // Movement of the mouth (frame-to-frame change in openness) against whether the VAD heard speech
+  private speakingScore(track: Track): number {
+    const movement = track.mouth.slice(1).map((v, i) => Math.abs(v - track.mouth[i]));
+    return correlation(movement, track.voice.slice(1));
+  }
+
+  private selectPrimary(seen: Track[]): number | null {
+    if (seen.length === 0) return null;
+
+    let score = (track: Track) => prominence(track.face.box);
+
+    if (this.config.primaryFace === 'speaker') {
+      const speakers = seen.filter(
+        (t) => t.mouth.length >= MIN_SPEAKER_SAMPLES && this.speakingScore(t) >= MIN_SPEAKER_CORRELATION
+      );
+      // Nobody has talked enough to tell yet: fall back to prominence
+      if (speakers.length > 0) {
+        score = (track) => (speakers.includes(track) ? 1 + this.speakingScore(track) : 0);
+      }
+    }
+
+    let best = seen[0];
+    for (const track of seen) {
+      if (score(track) > score(best)) best = track;
+    }
+
+    // Stick with the current primary unless someone is clearly ahead, so the choice doesn't flicker
+    const current = seen.find((t) => t.id === this.primaryId);
+    if (current && current !== best && score(best) < score(current) * this.config.switchMargin) {
+      return current.id;
+    }
+    return best.id;
+  }
+}
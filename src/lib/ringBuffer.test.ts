@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { RingBuffer } from '@/lib/ringBuffer';
+
+describe('RingBuffer', () => {
+  it('keeps items oldest to newest until full', () => {
+    const buffer = new RingBuffer<number>(3);
+    buffer.push(1);
+    buffer.push(2);
+
+    expect(buffer.size).toBe(2);
+    expect(buffer.toArray()).toEqual([1, 2]);
+  });
+
+  it('overwrites the oldest item once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    for (let i = 1; i <= 7; i++) buffer.push(i);
+
+    expect(buffer.size).toBe(3);
+    expect(buffer.toArray()).toEqual([5, 6, 7]);
+  });
+
+  it('starts over after clear()', () => {
+    const buffer = new RingBuffer<number>(2);
+    buffer.push(1);
+    buffer.push(2);
+    buffer.push(3);
+    buffer.clear();
+    buffer.push(4);
+
+    expect(buffer.size).toBe(1);
+    expect(buffer.toArray()).toEqual([4]);
+  });
+
+  it('rejects a capacity below one', () => {
+    expect(() => new RingBuffer(0)).toThrow('capacity must be positive');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Fixed-capacity FIFO buffer: once full, each push overwrites the oldest item.
+ */
+export class RingBuffer<T> {
+  readonly capacity: number;
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(capacity: number) {
+    if (capacity <= 0) {
+      throw new Error('RingBuffer capacity must be positive');
+    }
+    this.capacity = capacity;
+    this.items = new Array(capacity);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.count) % this.capacity;
+    this.items[index] = item;
+
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // Oldest to newest
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TranscriptionResult } from '@/services/VoiceAnalysisService';
+import { SESSION_RECORDING_VERSION, SessionRecorder, parseSessionRecording } from '@/lib/session/recording';
+
+const transcript = (text: string): TranscriptionResult => ({ text, isFinal: false, confidence: 0.9, timestamp: 0 });
+
+function recordingJson(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format: 'sevenpercent.session',
+    version: SESSION_RECORDING_VERSION,
+    startedAt: 1000,
+    duration: 5000,
+    events: [],
+    ...overrides,
+  });
+}
+
+describe('SessionRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records events with their offset from the start', () => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    vi.advanceTimersByTime(250);
+    recorder.record('transcription', transcript('hello'));
+    vi.advanceTimersByTime(750);
+    const recording = recorder.stop();
+
+    expect(recording).toEqual({
+      format: 'sevenpercent.session',
+      version: SESSION_RECORDING_VERSION,
+      startedAt: 10000,
+      duration: 1000,
+      events: [{ offset: 250, type: 'transcription', data: transcript('hello') }],
+    });
+  });
+
+  it('ignores events outside start() and stop()', () => {
+    const recorder = new SessionRecorder();
+    recorder.record('transcription', transcript('before'));
+    recorder.start();
+    expect(recorder.isRecording).toBe(true);
+    const recording = recorder.stop();
+    recorder.record('transcription', transcript('after'));
+
+    expect(recorder.isRecording).toBe(false);
+    expect(recording.events).toEqual([]);
+  });
+
+  it('starts a fresh recording on each start()', () => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    recorder.record('transcription', transcript('first'));
+    recorder.stop();
+    recorder.start();
+
+    expect(recorder.stop().events).toEqual([]);
+  });
+});
+
+describe('parseSessionRecording', () => {
+  it('round-trips a recording', () => {
+    const recorder = new SessionRecorder();
+    recorder.start();
+    recorder.record('transcription', transcript('hi'));
+    const recording = recorder.stop();
+
+    expect(parseSessionRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it('sorts events and drops unknown or malformed ones', () => {
+    const parsed = parseSessionRecording(
+      recordingJson({
+        events: [
+          { offset: 300, type: 'transcription', data: transcript('b') },
+          { offset: 100, type: 'transcription', data: transcript('a') },
+          { offset: 200, type: 'telemetry', data: {} },
+          { type: 'transcription', data: transcript('no offset') },
+          null,
+        ],
+      })
+    );
+
+    expect(parsed.events.map((e) => e.offset)).toEqual([100, 300]);
+  });
+
+  it('falls back to the last event for a missing duration', () => {
+    const parsed = parseSessionRecording(
+      recordingJson({ duration: undefined, events: [{ offset: 4200, type: 'transcription', data: transcript('a') }] })
+    );
+
+    expect(parsed.duration).toBe(4200);
+    expect(parseSessionRecording(recordingJson({ duration: undefined })).duration).toBe(0);
+  });
+
+  it.each([
+    ['not JSON', '{', 'not valid JSON'],
+    ['another format', recordingJson({ format: 'sevenpercent.conversation' }), 'not a session recording'],
+    ['a newer version', recordingJson({ version: SESSION_RECORDING_VERSION + 1 }), 'Unsupported recording version'],
+    ['no events', recordingJson({ events: undefined }), 'missing its events'],
+    ['no start time', recordingJson({ startedAt: '2024-01-01' }), 'missing its events'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseSessionRecording(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,101 @@
+import type { Message } from '@/hooks/useMultimodalAI';
+import type { EmotionResult } from '@/services/FaceEmotionService';
+import type { TranscriptionResult, VoiceEmotionResult } from '@/services/VoiceAnalysisService';
+
+// Bump when the file shape changes; parseSessionRecording rejects versions it doesn't know
+export const SESSION_RECORDING_VERSION = 1;
+
+export interface RecordedEventMap {
+  facial: EmotionResult;
+  voice: VoiceEmotionResult;
+  transcription: TranscriptionResult;
+  message: Message;
+}
+
+export type RecordedEventType = keyof RecordedEventMap;
+
+export type RecordedEvent = {
+  [K in RecordedEventType]: {
+    // Milliseconds since the recording started
+    offset: number;
+    type: K;
+    data: RecordedEventMap[K];
+  };
+}[RecordedEventType];
+
+export interface SessionRecording {
+  format: 'sevenpercent.session';
+  version: typeof SESSION_RECORDING_VERSION;
+  startedAt: number;
+  duration: number;
+  events: RecordedEvent[];
+}
+
+/**
+ * Collects every reading, transcript and finalized message of a live session
+ * with its offset from the start, so it can be replayed later.
+ */
+export class SessionRecorder {
+  private startedAt = 0;
+  private events: RecordedEvent[] = [];
+  private recording = false;
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  start(): void {
+    this.startedAt = Date.now();
+    this.events = [];
+    this.recording = true;
+  }
+
+  record<K extends RecordedEventType>(type: K, data: RecordedEventMap[K]): void {
+    if (!this.recording) return;
+    this.events.push({ offset: Date.now() - this.startedAt, type, data } as RecordedEvent);
+  }
+
+  stop(): SessionRecording {
+    this.recording = false;
+    return {
+      format: 'sevenpercent.session',
+      version: SESSION_RECORDING_VERSION,
+      startedAt: this.startedAt,
+      duration: Date.now() - this.startedAt,
+      events: this.events,
+    };
+  }
+}
+
+const EVENT_TYPES: RecordedEventType[] = ['facial', 'voice', 'transcription', 'message'];
+
+export function parseSessionRecording(text: string): SessionRecording {
+  let parsed: Partial<SessionRecording>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (parsed.format !== 'sevenpercent.session') {
+    throw new Error('File is not a session recording');
+  }
+  if (parsed.version !== SESSION_RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${parsed.version}`);
+  }
+  if (!Array.isArray(parsed.events) || typeof parsed.startedAt !== 'number') {
+    throw new Error('Recording is missing its events');
+  }
+
+  const events = parsed.events
+    .filter((event) => EVENT_TYPES.includes(event?.type) && typeof event.offset === 'number')
+    .sort((a, b) => a.offset - b.offset);
+
+  return {
+    format: parsed.format,
+    version: parsed.version,
+    startedAt: parsed.startedAt,
+    duration: parsed.duration ?? events[events.length - 1]?.offset ?? 0,
+    events,
+  };
+}
@@ -27,10 +27,46 @@ import {
   Edit3,
   Check,
   X,
+  Square,
+  History,
+  Circle,
+  Upload,
+  Volume2,
+  VolumeX,
+  ScanFace,
+  Target,
+  Clock,
+  RotateCcw,
+  WifiOff,
 } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
-import { useMultimodalAI, AIProvider, Message } from "@/hooks/useMultimodalAI";
+import { useMultimodalAI, Message } from "@/hooks/useMultimodalAI";
+import { EmotionTimelineChart } from "@/components/EmotionTimelineChart";
+import { ConversationSidebar } from "@/components/ConversationSidebar";
+import { ExportMenu } from "@/components/ExportMenu";
+import { FaceOverlay } from "@/components/FaceOverlay";
+import { CalibrationDialog } from "@/components/CalibrationDialog";
+import { ModelPicker } from "@/components/ModelPicker";
+import { resolveSelection, type ModelSelection } from "@/lib/chat/providers";
+import { PersonaPicker } from "@/components/PersonaPicker";
+import { PersonaDialog } from "@/components/PersonaDialog";
+import { DEFAULT_PERSONA_ID, buildSystemPrompt, findPersona, type Persona } from "@/lib/chat/personas";
+import { getPersonaRepository, type PersonaInput } from "@/services/PersonaRepository";
+import { getProfileRepository } from "@/services/ProfileRepository";
+import { downloadFile } from "@/lib/export/conversationExport";
+import { parseSessionRecording } from "@/lib/session/recording";
+import type { SpeechRate } from "@/lib/audio/speechRate";
+
+// Conversation history is opt-in; the choice is remembered on this device
+const SAVE_HISTORY_KEY = "sevenpercent:save-history";
+
+const CALIBRATION_MS = 20000;
+
+// Active persona, remembered on this device; personas that set no language use this one
+const PERSONA_KEY = "sevenpercent:persona";
+const DEFAULT_LANGUAGE = "fr-FR";
 
 // Emotion icons mapping
 const EmotionIcon = ({ emotion, className }: { emotion: string; className?: string }) => {
@@ -79,6 +115,12 @@ const getEmotionLabel = (emotion: string): string => {
   return labels[emotion] || emotion;
 };
 
+// Words per minute once the utterance was transcribed, syllables per second before
+const formatSpeechRate = (rate: SpeechRate): string =>
+  rate.wordsPerMinute !== null
+    ? `${Math.round(rate.wordsPerMinute)} wpm`
+    : `${rate.syllablesPerSecond.toFixed(1)} syll/s`;
+
 const Demo = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
@@ -88,7 +130,19 @@ const Demo = () => {
   const [micEnabled, setMicEnabled] = useState(false);
   const [isReady, setIsReady] = useState(false);
   const [hasSeenSecurityModal, setHasSeenSecurityModal] = useState(false);
-  const [selectedProvider] = useState<AIProvider>("claude");
+  const [modelSelection, setModelSelection] = useState<ModelSelection>(() => resolveSelection());
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState(() => localStorage.getItem(PERSONA_KEY) ?? DEFAULT_PERSONA_ID);
+  // Persona editor: null persona creates a new one
+  const [personaDialog, setPersonaDialog] = useState<{ persona: Persona | null } | null>(null);
+  const persona = findPersona(personaId, personas);
+  const [speakReplies, setSpeakReplies] = useState(true);
+  const [showFaceOverlay, setShowFaceOverlay] = useState(false);
+  // Calibration is offered once per visit, after the privacy modal, to users without a stored baseline
+  const [calibrationRequested, setCalibrationRequested] = useState(false);
+  const [calibrationDismissed, setCalibrationDismissed] = useState(false);
+  const [baselineLoaded, setBaselineLoaded] = useState(false);
+  const [saveHistory, setSaveHistory] = useState(() => localStorage.getItem(SAVE_HISTORY_KEY) === "true");
 
   // Transcript editing state
   const [isEditingTranscript, setIsEditingTranscript] = useState(false);
@@ -98,23 +152,55 @@ const Demo = () => {
   const streamRef = useRef<MediaStream | null>(null);
   const audioStreamRef = useRef<MediaStream | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
 
   const {
     messages,
     currentTranscript,
     isListening,
     isProcessing,
+    isStreaming,
+    isSpeaking,
     emotionState,
     error,
+    conversationId,
+    isRecording,
+    isReplaying,
     isInitialized,
+    faces,
     initialize,
     startListening,
     stopListening,
     sendMessage,
+    retryMessage,
+    isOnline,
+    getTimeline,
+    abortResponse,
+    resumeConversation,
+    clearMessages,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
     setProvider,
+    baseline,
+    calibrationProgress,
+    calibrate,
+    cancelCalibration,
+    setBaseline,
   } = useMultimodalAI({
-    provider: selectedProvider,
-    language: 'fr-FR',
+    provider: modelSelection.provider,
+    model: modelSelection.model,
+    language: persona.language ?? DEFAULT_LANGUAGE,
+    systemPrompt: buildSystemPrompt(persona),
+    personaId: persona.id,
+    persistConversations: saveHistory,
+    speakReplies,
+    // Track everyone in frame and follow whoever is talking; landmarks also feed head pose,
+    // blink rate and attention to chat-ai, and the overlay's dots
+    multiFace: true,
+    primaryFace: "speaker",
+    faceLandmarks: true,
     onEmotionChange: (state) => {
       console.log("[Demo] Emotion changed:", state.combined);
     },
@@ -134,6 +220,26 @@ const Demo = () => {
     }
   }, [user, hasSeenSecurityModal, isReady]);
 
+  // Load the user's stored baseline
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    getProfileRepository()
+      .loadBaseline(user.id)
+      .then((stored) => {
+        if (!cancelled) setBaseline(stored);
+      })
+      .catch((err) => console.error("[Demo] Failed to load baseline:", err))
+      .finally(() => {
+        if (!cancelled) setBaselineLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, setBaseline]);
+
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -141,8 +247,87 @@ const Demo = () => {
 
   // Update provider when selection changes
   useEffect(() => {
-    setProvider(selectedProvider);
-  }, [selectedProvider, setProvider]);
+    setProvider(modelSelection.provider, modelSelection.model);
+  }, [modelSelection, setProvider]);
+
+  // Restore the model the user picked last time
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    getProfileRepository()
+      .loadModelSelection(user.id)
+      .then((stored) => {
+        if (!cancelled && stored) setModelSelection(stored);
+      })
+      .catch((err) => console.error("[Demo] Failed to load model selection:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Load the user's own personas
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    getPersonaRepository()
+      .listPersonas()
+      .then((stored) => {
+        if (!cancelled) setPersonas(stored);
+      })
+      .catch((err) => console.error("[Demo] Failed to load personas:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const handlePersonaChange = (next: Persona) => {
+    setPersonaId(next.id);
+    localStorage.setItem(PERSONA_KEY, next.id);
+  };
+
+  const handleSavePersona = async (input: PersonaInput) => {
+    const editing = personaDialog?.persona;
+    try {
+      const repository = getPersonaRepository();
+      if (editing) {
+        const saved = await repository.updatePersona(editing.id, input);
+        setPersonas((prev) => prev.map((p) => (p.id === saved.id ? saved : p)));
+      } else {
+        const saved = await repository.createPersona(input);
+        setPersonas((prev) => [...prev, saved]);
+        handlePersonaChange(saved);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save persona");
+      throw err;
+    }
+  };
+
+  const handleDeletePersona = async () => {
+    const editing = personaDialog?.persona;
+    if (!editing) return;
+    try {
+      await getPersonaRepository().deletePersona(editing.id);
+      setPersonas((prev) => prev.filter((p) => p.id !== editing.id));
+      if (personaId === editing.id) handlePersonaChange(findPersona(DEFAULT_PERSONA_ID));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete persona");
+      throw err;
+    }
+  };
+
+  const handleModelChange = (selection: ModelSelection) => {
+    setModelSelection(selection);
+    if (!user) return;
+
+    getProfileRepository()
+      .saveModelSelection(user.id, selection)
+      .catch((err) => console.error("[Demo] Failed to save model selection:", err));
+  };
 
   // Ensure video stream is attached when ref becomes available
   useEffect(() => {
@@ -160,11 +345,45 @@ const Demo = () => {
   }, [currentTranscript, isEditingTranscript]);
 
   const handleSecurityAccept = () => {
+    localStorage.setItem(SAVE_HISTORY_KEY, String(saveHistory));
     setSecurityModalOpen(false);
     setHasSeenSecurityModal(true);
     setIsReady(true);
   };
 
+  // Offered automatically once camera and mic are running, or opened from the controls
+  const calibrationOpen =
+    calibrationRequested || (isReady && isInitialized && baselineLoaded && !baseline && !calibrationDismissed);
+
+  const closeCalibration = () => {
+    setCalibrationRequested(false);
+    setCalibrationDismissed(true);
+  };
+
+  const handleStartCalibration = async () => {
+    const result = await calibrate(CALIBRATION_MS);
+    closeCalibration();
+    if (!result || !user) return;
+    // The baseline describes the user's face and voice, so it's only stored with their consent
+    if (!saveHistory) {
+      toast.success("Calibrated for this session");
+      return;
+    }
+
+    try {
+      await getProfileRepository().saveBaseline(user.id, result);
+      toast.success("Calibration saved");
+    } catch (err) {
+      console.error("[Demo] Failed to save baseline:", err);
+      toast.error("Calibrated for this session, but it couldn't be saved to your account");
+    }
+  };
+
+  const handleSkipCalibration = () => {
+    cancelCalibration();
+    closeCalibration();
+  };
+
   const toggleCamera = async () => {
     if (cameraEnabled) {
       if (streamRef.current) {
@@ -271,6 +490,32 @@ const Demo = () => {
     }
   };
 
+  const handleToggleRecording = () => {
+    if (!isRecording) {
+      startRecording();
+      return;
+    }
+
+    const recording = stopRecording();
+    if (recording) {
+      const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, "-");
+      downloadFile(JSON.stringify(recording), `session-${stamp}.json`, "application/json");
+    }
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      startReplay(parseSessionRecording(await file.text()));
+    } catch (err) {
+      console.error("[Demo] Failed to load recording:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to load recording");
+    }
+  };
+
   // Handle transcript editing
   const handleStartEdit = () => {
     setIsEditingTranscript(true);
@@ -320,7 +565,7 @@ const Demo = () => {
               <div>
                 <p className="font-medium text-sm">End-to-end encryption</p>
                 <p className="text-xs text-muted-foreground">
-                  All communications are encrypted and never stored
+                  All communications are encrypted. Conversations are only stored if you opt in below
                 </p>
               </div>
             </div>
@@ -340,10 +585,29 @@ const Demo = () => {
               <div>
                 <p className="font-medium text-sm">Zero data retention</p>
                 <p className="text-xs text-muted-foreground">
-                  We never collect or share any personal information
+                  We never collect or share any personal information. Nothing is kept unless you
+                  opt in to saving your history below
                 </p>
               </div>
             </div>
+
+            <label className="flex items-start gap-4 p-3 rounded-lg border border-border cursor-pointer">
+              <History className="w-5 h-5 text-foreground mt-0.5 shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium text-sm">Save my conversation history (optional)</p>
+                <p className="text-xs text-muted-foreground">
+                  Transcripts and emotion summaries are stored in your account so you can resume
+                  them later, along with your face and voice calibration. You can delete
+                  conversations at any time.
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                checked={saveHistory}
+                onChange={(e) => setSaveHistory(e.target.checked)}
+                className="mt-1 w-4 h-4 accent-foreground"
+              />
+            </label>
           </div>
 
           <Button
@@ -359,6 +623,26 @@ const Demo = () => {
         </DialogContent>
       </Dialog>
 
+      {personaDialog && (
+        <PersonaDialog
+          key={personaDialog.persona?.id ?? "new"}
+          open
+          onOpenChange={(open) => !open && setPersonaDialog(null)}
+          persona={personaDialog.persona}
+          onSave={handleSavePersona}
+          onDelete={handleDeletePersona}
+        />
+      )}
+
+      <CalibrationDialog
+        open={calibrationOpen}
+        onOpenChange={(open) => (open ? setCalibrationRequested(true) : closeCalibration())}
+        progress={calibrationProgress}
+        durationMs={CALIBRATION_MS}
+        onStart={handleStartCalibration}
+        onSkip={handleSkipCalibration}
+      />
+
       {/* Header */}
       <header className="p-4 flex items-center justify-between border-b border-border">
         <Link
@@ -370,9 +654,18 @@ const Demo = () => {
         </Link>
         <span className="text-xl font-black">7%</span>
 
-        {/* Model Badge */}
-        <div className="px-3 py-1 bg-muted rounded-full text-xs text-muted-foreground">
-          Claude Sonnet 4
+        <div className="flex items-center gap-2">
+          <ExportMenu messages={messages} conversationId={conversationId} />
+
+          <PersonaPicker
+            value={persona}
+            personas={personas}
+            onChange={handlePersonaChange}
+            onCreate={() => setPersonaDialog({ persona: null })}
+            onEdit={(p) => setPersonaDialog({ persona: p })}
+            disabled={isProcessing}
+          />
+          <ModelPicker value={modelSelection} onChange={handleModelChange} disabled={isProcessing} />
         </div>
       </header>
 
@@ -380,6 +673,17 @@ const Demo = () => {
       <main className="flex-1 flex flex-col lg:flex-row gap-4 p-4 overflow-hidden">
         {isReady && (
           <>
+            {/* History Sidebar - only when the user opted in */}
+            {saveHistory && (
+              <div className="lg:w-64 shrink-0 flex flex-col">
+                <ConversationSidebar
+                  activeConversationId={conversationId}
+                  onResume={resumeConversation}
+                  onNewConversation={clearMessages}
+                />
+              </div>
+            )}
+
             {/* Left Panel - Video & Controls */}
             <div className="lg:w-1/3 space-y-4">
               {/* Video Preview */}
@@ -392,6 +696,7 @@ const Demo = () => {
                   playsInline
                   className={`w-full h-full object-cover scale-x-[-1] ${cameraEnabled ? 'block' : 'hidden'}`}
                 />
+                {cameraEnabled && showFaceOverlay && <FaceOverlay videoRef={videoRef} faces={faces} mirrored />}
                 {!cameraEnabled && (
                   <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
                     <VideoOff className="w-12 h-12 mb-2" />
@@ -430,8 +735,16 @@ const Demo = () => {
                   )}
                 </div>
 
+                {/* Speaking Indicator - recognition is paused meanwhile */}
+                {isSpeaking && (
+                  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-muted/90 text-foreground rounded-full flex items-center gap-2 animate-pulse">
+                    <Volume2 className="w-4 h-4" />
+                    <span className="text-sm font-medium">Speaking...</span>
+                  </div>
+                )}
+
                 {/* Listening Indicator */}
-                {isListening && (
+                {isListening && !isSpeaking && (
                   <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-accent/90 text-accent-foreground rounded-full flex items-center gap-2 animate-pulse">
                     <Mic className="w-4 h-4" />
                     <span className="text-sm font-medium">Listening...</span>
@@ -439,6 +752,9 @@ const Demo = () => {
                 )}
               </div>
 
+              {/* Emotion Timeline */}
+              {(isInitialized || isReplaying) && <EmotionTimelineChart getTimeline={getTimeline} messages={messages} />}
+
               {/* Controls */}
               <div className="flex justify-center gap-3 flex-wrap">
                 <Button
@@ -482,6 +798,72 @@ const Demo = () => {
                 >
                   {isListening ? "Stop" : "Speak"}
                 </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSpeakReplies((value) => !value)}
+                  className="border-border hover:bg-muted"
+                  title={speakReplies ? "Mute spoken replies" : "Read replies aloud"}
+                >
+                  {speakReplies ? <Volume2 className="w-4 h-4 mr-2" /> : <VolumeX className="w-4 h-4 mr-2" />}
+                  {speakReplies ? "Voice" : "Muted"}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowFaceOverlay((value) => !value)}
+                  disabled={!cameraEnabled}
+                  className={showFaceOverlay ? "border-accent/50 text-accent hover:bg-muted" : "border-border hover:bg-muted"}
+                  title={showFaceOverlay ? "Hide face detection overlay" : "Show face detection overlay"}
+                >
+                  <ScanFace className="w-4 h-4 mr-2" />
+                  Overlay
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCalibrationRequested(true)}
+                  disabled={!isInitialized || isReplaying}
+                  className="border-border hover:bg-muted"
+                  title={baseline ? "Recalibrate your neutral face and voice" : "Calibrate to your neutral face and voice"}
+                >
+                  <Target className="w-4 h-4 mr-2" />
+                  {baseline ? "Recalibrate" : "Calibrate"}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleToggleRecording}
+                  disabled={!isInitialized || isReplaying}
+                  className={isRecording ? "border-red-500/50 text-red-400 hover:bg-muted" : "border-border hover:bg-muted"}
+                  title="Record this session to a file"
+                >
+                  <Circle className={`w-3 h-3 mr-2 ${isRecording ? "fill-red-400 animate-pulse" : ""}`} />
+                  {isRecording ? "Save" : "Record"}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => (isReplaying ? stopReplay() : replayInputRef.current?.click())}
+                  disabled={isRecording}
+                  className="border-border hover:bg-muted"
+                  title="Replay a recorded session"
+                >
+                  {isReplaying ? <Square className="w-3 h-3 mr-2" /> : <Upload className="w-4 h-4 mr-2" />}
+                  {isReplaying ? "Stop replay" : "Replay"}
+                </Button>
+                <input
+                  ref={replayInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleReplayFile}
+                  className="hidden"
+                />
               </div>
 
               {/* Current Transcript - Editable */}
@@ -536,6 +918,15 @@ const Demo = () => {
                 </div>
               )}
 
+              {!isOnline && (
+                <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-center gap-2">
+                  <WifiOff className="w-4 h-4 text-amber-400 shrink-0" />
+                  <p className="text-sm text-amber-400">
+                    You're offline — messages will be sent when you reconnect
+                  </p>
+                </div>
+              )}
+
               {/* Error Display */}
               {error && (
                 <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -569,7 +960,7 @@ const Demo = () => {
                       </p>
                     </div>
                   ) : (
-                    messages.map((message: Message) => (
+                    messages.map((message: Message, index: number) => (
                       <div
                         key={message.id}
                         className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
@@ -581,20 +972,60 @@ const Demo = () => {
                               : "bg-muted text-foreground rounded-bl-sm"
                           }`}
                         >
-                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                          <p className="text-sm whitespace-pre-wrap">
+                            {message.content}
+                            {isStreaming && index === messages.length - 1 && message.role === "assistant" && (
+                              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+                            )}
+                          </p>
+
+                          {message.interrupted && (
+                            <p className="mt-1 text-xs italic opacity-60">Interrupted</p>
+                          )}
+
+                          {message.status === "pending" && (
+                            <p className="mt-1 flex items-center gap-1 text-xs opacity-60">
+                              <Clock className="w-3 h-3" />
+                              {isOnline ? "Sending…" : "Waiting for connection"}
+                            </p>
+                          )}
+
+                          {message.status === "failed" && (
+                            <div className="mt-1 flex items-center gap-2 text-xs text-red-400">
+                              <span>Not sent</span>
+                              <button
+                                onClick={() => retryMessage(message.id)}
+                                className="flex items-center gap-1 underline-offset-2 hover:underline"
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                                Retry
+                              </button>
+                            </div>
+                          )}
 
                           {/* Emotion context badge for user messages */}
-                          {message.role === "user" && message.emotionContext?.facial && (
+                          {message.role === "user" &&
+                            (message.emotionContext?.facial || message.emotionContext?.speechRate) && (
                             <div
                               className={`mt-2 flex items-center gap-1 text-xs opacity-60 ${
                                 message.role === "user" ? "text-background/70" : ""
                               }`}
                             >
-                              <EmotionIcon
-                                emotion={message.emotionContext.facial.dominant}
-                                className="w-3 h-3"
-                              />
-                              <span>{getEmotionLabel(message.emotionContext.facial.dominant)}</span>
+                              {message.emotionContext.facial && (
+                                <>
+                                  <EmotionIcon
+                                    emotion={message.emotionContext.facial.dominant}
+                                    className="w-3 h-3"
+                                  />
+                                  <span>{getEmotionLabel(message.emotionContext.facial.dominant)}</span>
+                                </>
+                              )}
+                              {message.emotionContext.speechRate && (
+                                <span title="Speech rate of this utterance">
+                                  {message.emotionContext.facial && "· "}
+                                  {formatSpeechRate(message.emotionContext.speechRate)}
+                                </span>
+                              )}
                             </div>
                           )}
                         </div>
@@ -602,8 +1033,8 @@ const Demo = () => {
                     ))
                   )}
 
-                  {/* Processing indicator */}
-                  {isProcessing && (
+                  {/* Processing indicator - shown until the first streamed token arrives */}
+                  {isProcessing && !isStreaming && (
                     <div className="flex justify-start">
                       <div className="bg-muted px-4 py-3 rounded-2xl rounded-bl-sm">
                         <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
@@ -611,6 +1042,21 @@ const Demo = () => {
                     </div>
                   )}
 
+                  {/* Stop the pending or spoken reply */}
+                  {(isProcessing || isSpeaking) && (
+                    <div className="flex justify-start">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={abortResponse}
+                        className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        <Square className="w-3 h-3 mr-1" />
+                        Stop
+                      </Button>
+                    </div>
+                  )}
+
                   <div ref={messagesEndRef} />
                 </div>
               </ScrollArea>
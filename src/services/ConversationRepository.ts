@@ -0,0 +1,169 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { Message } from '@/hooks/useMultimodalAI';
+import type { ConversationSummary } from '@/lib/chat/context';
+
+export type Conversation = Tables<'conversations'>;
+
+const TITLE_MAX_LENGTH = 60;
+
+function toMessage(row: Tables<'conversation_messages'>): Message {
+  return {
+    id: row.id,
+    role: row.role === 'assistant' ? 'assistant' : 'user',
+    content: row.content,
+    timestamp: new Date(row.created_at).getTime(),
+    interrupted: row.interrupted || undefined,
+    emotionContext: (row.emotion_context as unknown as Message['emotionContext']) ?? undefined,
+  };
+}
+
+/**
+ * Stores conversations and their turns in Supabase.
+ * Rows are scoped to the signed-in user through RLS (user_id defaults to auth.uid()).
+ */
+export class ConversationRepository {
+  async createConversation(firstMessage: string, personaId: string | null = null): Promise<Conversation> {
+    const title =
+      firstMessage.length > TITLE_MAX_LENGTH ? `${firstMessage.slice(0, TITLE_MAX_LENGTH - 1)}…` : firstMessage;
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({ title, persona_id: personaId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to create conversation:', error);
+      throw new Error('Failed to create conversation');
+    }
+
+    return data;
+  }
+
+  async listConversations(limit = 50): Promise<Conversation[]> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to list conversations:', error);
+      throw new Error('Failed to load conversation history');
+    }
+
+    return data;
+  }
+
+  async loadMessages(conversationId: string): Promise<Message[]> {
+    const { data, error } = await supabase
+      .from('conversation_messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to load messages:', error);
+      throw new Error('Failed to load conversation');
+    }
+
+    return data.map(toMessage);
+  }
+
+  async loadSummary(conversationId: string): Promise<ConversationSummary | null> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('context_summary')
+      .eq('id', conversationId)
+      .single();
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to load summary:', error);
+      throw new Error('Failed to load conversation');
+    }
+
+    return (data.context_summary as unknown as ConversationSummary | null) ?? null;
+  }
+
+  async saveSummary(conversationId: string, summary: ConversationSummary): Promise<void> {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ context_summary: summary as unknown as Json })
+      .eq('id', conversationId);
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to save summary:', error);
+      throw new Error('Failed to save conversation summary');
+    }
+  }
+
+  // Returns the id of the stored row
+  async saveMessage(conversationId: string, message: Message): Promise<string> {
+    const { data, error } = await supabase
+      .from('conversation_messages')
+      .insert({
+        conversation_id: conversationId,
+        role: message.role,
+        content: message.content,
+        emotion_context: (message.emotionContext ?? null) as unknown as Json,
+        interrupted: message.interrupted ?? false,
+        created_at: new Date(message.timestamp).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to save message:', error);
+      throw new Error('Failed to save message');
+    }
+
+    await this.touchConversation(conversationId);
+    return data.id;
+  }
+
+  // Rewrites a stored turn, e.g. when a barge-in extended the user's message
+  async updateMessage(conversationId: string, rowId: string, message: Message): Promise<void> {
+    const { error } = await supabase
+      .from('conversation_messages')
+      .update({
+        content: message.content,
+        emotion_context: (message.emotionContext ?? null) as unknown as Json,
+        interrupted: message.interrupted ?? false,
+      })
+      .eq('id', rowId);
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to update message:', error);
+      throw new Error('Failed to update message');
+    }
+
+    await this.touchConversation(conversationId);
+  }
+
+  private async touchConversation(conversationId: string): Promise<void> {
+    await supabase
+      .from('conversations')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', conversationId);
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    const { error } = await supabase.from('conversations').delete().eq('id', conversationId);
+
+    if (error) {
+      console.error('[ConversationRepository] Failed to delete conversation:', error);
+      throw new Error('Failed to delete conversation');
+    }
+  }
+}
+
+// Singleton instance for global use
+let repositoryInstance: ConversationRepository | null = null;
+
+export function getConversationRepository(): ConversationRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new ConversationRepository();
+  }
+  return repositoryInstance;
+}
@@ -1,18 +1,71 @@
-import * as faceapi from 'face-api.js';
+import type {
+  DetectedFace,
+  FaceDetectionOptions,
+  FaceWorkerCommand,
+  FaceWorkerMessage,
+} from '@/lib/face/detection';
+import { detectFaces, loadFaceModels } from '@/lib/face/inference';
+import { FaceTracker, type PrimaryFaceStrategy, type TrackedFace } from '@/lib/face/tracker';
+import type { HeadPose } from '@/lib/face/landmarks';
+import { normalizeFacialResult, type FacialBaseline } from '@/lib/emotion/baseline';
+import { AdaptiveFrameScheduler, type FaceDetectionStats, type FrameSchedulerConfig } from '@/lib/face/scheduler';
+import FaceDetectionWorker from '@/lib/face/faceDetection.worker.ts?worker';
 
 export type Emotion = 'happy' | 'sad' | 'angry' | 'fearful' | 'neutral' | 'surprised' | 'disgusted';
 
+// Signals from facial landmarks; only present when the landmark model is loaded
+export interface FaceEngagement {
+  headPose: HeadPose;
+  // Eye aspect ratio: about 0.3 open, under 0.2 closed
+  eyeOpenness: number;
+  // Blinks per minute over the last minute the face was tracked.
+  // Blinks shorter than the detection interval are missed, so this undercounts at low frame rates.
+  blinkRate: number;
+  // 0-1, smoothed: facing the screen with eyes open
+  attention: number;
+}
+
 export interface EmotionResult {
   dominant: Emotion;
   confidence: number;
   all: Record<Emotion, number>;
   timestamp: number;
+  engagement?: FaceEngagement;
 }
 
 export interface FaceEmotionConfig {
   modelsPath?: string;
+  // Delay between detections; with `adaptive` this is the steady-state delay
   detectionInterval?: number;
+  // Adapt the delay to inference time, tab visibility and how fast the expression changes
+  adaptive?: boolean;
+  scheduler?: Omit<FrameSchedulerConfig, 'baseInterval'>;
   minConfidence?: number;
+  // Run inference in a Web Worker when OffscreenCanvas is available
+  useWorker?: boolean;
+  // Detect every face in frame instead of one; see setDetectionMode()
+  multiFace?: boolean;
+  // How the face driving onEmotion is chosen when several are in frame
+  primaryFace?: PrimaryFaceStrategy;
+  // Load the 68-point landmark model, for engagement signals and the 'speaker' strategy.
+  // Its weights (face_landmark_68_tiny_model-*) must be deployed next to the other models.
+  landmarks?: boolean;
+}
+
+export interface FaceDetectionMode {
+  multiFace?: boolean;
+  primaryFace?: PrimaryFaceStrategy;
+  landmarks?: boolean;
+}
+
+// 'none' after the models could not be loaded anywhere; the next startDetection() tries again
+export type FaceDetectionBackend = 'worker' | 'main-thread' | 'none';
+
+// Distributive Omit, so each command keeps its own fields
+type WorkerRequest = FaceWorkerCommand extends infer C ? (C extends unknown ? Omit<C, 'id'> : never) : never;
+
+function supportsWorkerInference(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
 }
 
 const EMOTION_MAPPING: Record<string, Emotion> = {
@@ -52,25 +105,90 @@ export class FaceEmotionService {
   private detectionInterval: number | null = null;
   private config: Required<FaceEmotionConfig>;
   private onEmotionCallback: ((result: EmotionResult) => void) | null = null;
+  private onFacesCallback: ((faces: TrackedFace[]) => void) | null = null;
+  private onErrorCallback: ((error: Error) => void) | null = null;
+
+  private scheduler: AdaptiveFrameScheduler;
+  private tracker: FaceTracker;
+  private landmarksLoaded = false;
+  private voiceActivitySource: (() => boolean) | null = null;
+  private baseline: FacialBaseline | null = null;
+
+  private backend: FaceDetectionBackend = 'main-thread';
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pendingRequests = new Map<
+    number,
+    { resolve: (message: FaceWorkerMessage) => void; reject: (error: Error) => void }
+  >();
 
   constructor(config: FaceEmotionConfig = {}) {
     this.config = {
       modelsPath: config.modelsPath || '/models',
       detectionInterval: config.detectionInterval || 500, // 500ms between detections
       minConfidence: config.minConfidence || 0.5,
+      useWorker: config.useWorker ?? true,
+      adaptive: config.adaptive ?? true,
+      scheduler: config.scheduler || {},
+      multiFace: config.multiFace ?? false,
+      primaryFace: config.primaryFace ?? 'prominent',
+      landmarks: config.landmarks ?? false,
+    };
+    this.scheduler = new AdaptiveFrameScheduler({
+      ...this.config.scheduler,
+      baseInterval: this.config.detectionInterval,
+    });
+    this.tracker = new FaceTracker({ primaryFace: this.config.primaryFace });
+  }
+
+  /**
+   * Changes how faces are detected. Call before initialize() to enable landmarks;
+   * afterwards they are only used if the model was already loaded.
+   */
+  setDetectionMode(mode: FaceDetectionMode): void {
+    if (mode.multiFace !== undefined) this.config.multiFace = mode.multiFace;
+    if (mode.landmarks !== undefined) this.config.landmarks = mode.landmarks;
+    if (mode.primaryFace !== undefined) {
+      this.config.primaryFace = mode.primaryFace;
+      this.tracker.setPrimaryFace(mode.primaryFace);
+    }
+  }
+
+  // Whether the user is speaking right now, used by the 'speaker' primary-face strategy
+  setVoiceActivitySource(source: (() => boolean) | null): void {
+    this.voiceActivitySource = source;
+  }
+
+  // Discount the user's resting expression; applies to the primary face, assumed to be the user
+  setBaseline(baseline: FacialBaseline | null): void {
+    this.baseline = baseline;
+  }
+
+  private get detectionOptions(): FaceDetectionOptions {
+    const wantsLandmarks = this.config.landmarks || this.config.primaryFace === 'speaker';
+    return {
+      multiFace: this.config.multiFace,
+      landmarks: wantsLandmarks && (this.landmarksLoaded || !this.isInitialized),
     };
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    try {
-      // Load face-api.js models
-      await Promise.all([
-        faceapi.nets.tinyFaceDetector.loadFromUri(this.config.modelsPath),
-        faceapi.nets.faceExpressionNet.loadFromUri(this.config.modelsPath),
-      ]);
+    if (this.config.useWorker && supportsWorkerInference()) {
+      try {
+        await this.startWorker();
+        this.isInitialized = true;
+        console.log('[FaceEmotionService] Models loaded in worker');
+        return;
+      } catch (error) {
+        console.warn('[FaceEmotionService] Worker unavailable, falling back to main thread:', error);
+        this.stopWorker();
+      }
+    }
 
+    try {
+      await this.loadMainThreadModels();
       this.isInitialized = true;
       console.log('[FaceEmotionService] Models loaded successfully');
     } catch (error) {
@@ -79,14 +197,96 @@ export class FaceEmotionService {
     }
   }
 
+  private async loadMainThreadModels(): Promise<void> {
+    // Load face-api.js models
+    this.landmarksLoaded = await loadFaceModels(this.config.modelsPath, this.detectionOptions);
+    this.backend = 'main-thread';
+  }
+
+  private async startWorker(): Promise<void> {
+    this.worker = new FaceDetectionWorker();
+    this.worker.onmessage = (event: MessageEvent<FaceWorkerMessage>) => {
+      const pending = this.pendingRequests.get(event.data.id);
+      if (!pending) return;
+      this.pendingRequests.delete(event.data.id);
+      if (event.data.type === 'error') {
+        pending.reject(new Error(event.data.message));
+      } else {
+        pending.resolve(event.data);
+      }
+    };
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.rejectPending(new Error(event.message || 'Face detection worker crashed'));
+    };
+
+    const ready = await this.request({
+      type: 'init',
+      modelsPath: new URL(this.config.modelsPath, location.href).href,
+      options: this.detectionOptions,
+    });
+    this.landmarksLoaded = ready.type === 'ready' && ready.landmarks;
+    this.backend = 'worker';
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectPending(new Error('Face detection worker stopped'));
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of this.pendingRequests.values()) pending.reject(error);
+    this.pendingRequests.clear();
+  }
+
+  private request(command: WorkerRequest, transfer: Transferable[] = []): Promise<FaceWorkerMessage> {
+    const worker = this.worker;
+    if (!worker) return Promise.reject(new Error('Face detection worker not running'));
+
+    const id = ++this.nextRequestId;
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      worker.postMessage({ ...command, id } as FaceWorkerCommand, transfer);
+    });
+  }
+
+  // A worker failure mid-session degrades to main-thread inference instead of stopping detection
+  private async fallBackToMainThread(error: unknown): Promise<void> {
+    console.warn('[FaceEmotionService] Worker inference failed, falling back to main thread:', error);
+    this.stopWorker();
+    try {
+      await this.loadMainThreadModels();
+    } catch (loadError) {
+      console.error('[FaceEmotionService] Failed to load models on the main thread:', loadError);
+      this.backend = 'none';
+      this.isInitialized = false;
+      this.stopDetection();
+      this.onErrorCallback?.(
+        new Error('Face emotion detection stopped. Please check that models are available and restart it.')
+      );
+    }
+  }
+
   setVideoElement(video: HTMLVideoElement): void {
     this.videoElement = video;
   }
 
+  // Results for the primary face only
   onEmotion(callback: (result: EmotionResult) => void): void {
     this.onEmotionCallback = callback;
   }
 
+  // Every face seen in a detection, with stable IDs across frames
+  onFaces(callback: (faces: TrackedFace[]) => void): void {
+    this.onFacesCallback = callback;
+  }
+
+  // Failures that stopped detection, after which it has to be started again
+  onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
   async startDetection(): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -99,12 +299,16 @@ export class FaceEmotionService {
     if (this.isDetecting) return;
 
     this.isDetecting = true;
+    this.scheduler.reset();
+    this.tracker.reset();
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
     this.runDetectionLoop();
     console.log('[FaceEmotionService] Detection started');
   }
 
   stopDetection(): void {
     this.isDetecting = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
     if (this.detectionInterval) {
       clearTimeout(this.detectionInterval);
       this.detectionInterval = null;
@@ -112,72 +316,100 @@ export class FaceEmotionService {
     console.log('[FaceEmotionService] Detection stopped');
   }
 
+  // Don't sit out the long hidden-tab delay once the user is back
+  private handleVisibilityChange = (): void => {
+    if (document.hidden || !this.isDetecting || this.detectionInterval === null) return;
+    clearTimeout(this.detectionInterval);
+    this.runDetectionLoop();
+  };
+
   private async runDetectionLoop(): Promise<void> {
+    this.detectionInterval = null;
     if (!this.isDetecting || !this.videoElement) return;
 
+    const startedAt = performance.now();
+    let result: EmotionResult | null = null;
+
     try {
-      const detection = await faceapi
-        .detectSingleFace(this.videoElement, new faceapi.TinyFaceDetectorOptions())
-        .withFaceExpressions();
-
-      if (detection && detection.expressions) {
-        const result = this.processExpressions(detection.expressions);
-        if (result.confidence >= this.config.minConfidence && this.onEmotionCallback) {
-          this.onEmotionCallback(result);
-        }
+      const detected =
+        this.backend === 'worker'
+          ? await this.detectInWorker(this.videoElement)
+          : await this.detectOnMainThread(this.videoElement);
+
+      const voiceActive = this.voiceActivitySource?.() ?? false;
+      const baseline = this.baseline;
+      const faces = this.tracker
+        .update(detected, Date.now(), voiceActive)
+        .map((face) => (face.isPrimary && baseline ? { ...face, result: normalizeFacialResult(face.result, baseline) } : face));
+      result = faces.find((face) => face.isPrimary)?.result ?? null;
+
+      this.onFacesCallback?.(faces);
+      if (result && result.confidence >= this.config.minConfidence && this.onEmotionCallback) {
+        this.onEmotionCallback(result);
       }
     } catch (error) {
       console.error('[FaceEmotionService] Detection error:', error);
     }
 
-    // Schedule next detection
+    if (!this.isDetecting) return;
+
+    // Schedule next detection; stats are tracked even with a fixed interval
+    const adaptiveDelay = this.scheduler.next(performance.now() - startedAt, result, document.hidden);
     this.detectionInterval = window.setTimeout(
       () => this.runDetectionLoop(),
-      this.config.detectionInterval
+      this.config.adaptive ? adaptiveDelay : this.config.detectionInterval
     );
   }
 
-  private processExpressions(expressions: faceapi.FaceExpressions): EmotionResult {
-    const emotionScores: Record<Emotion, number> = {
-      happy: expressions.happy,
-      sad: expressions.sad,
-      angry: expressions.angry,
-      fearful: expressions.fearful,
-      neutral: expressions.neutral,
-      surprised: expressions.surprised,
-      disgusted: expressions.disgusted,
-    };
+  private async detectOnMainThread(video: HTMLVideoElement): Promise<DetectedFace[]> {
+    const frame = { width: video.videoWidth, height: video.videoHeight };
+    return detectFaces(video, frame, Date.now(), this.detectionOptions);
+  }
 
-    // Find dominant emotion
-    let dominant: Emotion = 'neutral';
-    let maxScore = 0;
+  private async detectInWorker(video: HTMLVideoElement): Promise<DetectedFace[]> {
+    // No frame to grab until the video has data
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return [];
 
-    for (const [emotion, score] of Object.entries(emotionScores)) {
-      if (score > maxScore) {
-        maxScore = score;
-        dominant = emotion as Emotion;
-      }
+    const timestamp = Date.now();
+    const frame = await createImageBitmap(video);
+    try {
+      const message = await this.request({ type: 'detect', frame, timestamp, options: this.detectionOptions }, [
+        frame,
+      ]);
+      return message.type === 'result' ? message.faces : [];
+    } catch (error) {
+      // Requests rejected because detection was stopped or disposed aren't failures
+      if (this.isDetecting && this.worker) await this.fallBackToMainThread(error);
+      return [];
     }
-
-    return {
-      dominant,
-      confidence: maxScore,
-      all: emotionScores,
-      timestamp: Date.now(),
-    };
   }
 
-  getStatus(): { initialized: boolean; detecting: boolean } {
+  getStatus(): {
+    initialized: boolean;
+    detecting: boolean;
+    backend: FaceDetectionBackend;
+    stats: FaceDetectionStats;
+  } {
     return {
       initialized: this.isInitialized,
       detecting: this.isDetecting,
+      backend: this.backend,
+      stats: this.scheduler.getStats(),
     };
   }
 
   dispose(): void {
     this.stopDetection();
+    if (this.backend === 'worker') {
+      // Models live in the worker, so a later initialize() must start a new one
+      this.stopWorker();
+      this.isInitialized = false;
+    }
     this.videoElement = null;
     this.onEmotionCallback = null;
+    this.onFacesCallback = null;
+    this.onErrorCallback = null;
+    this.voiceActivitySource = null;
   }
 }
 
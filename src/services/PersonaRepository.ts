@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { TONE_LABELS, type Persona, type PersonaTone } from '@/lib/chat/personas';
+
+export type PersonaInput = Omit<Persona, 'id' | 'isPreset'>;
+
+function toPersona(row: Tables<'personas'>): Persona {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    systemPrompt: row.system_prompt,
+    tone: row.tone in TONE_LABELS ? (row.tone as PersonaTone) : 'warm',
+    language: row.language,
+    emotionRules: (row.emotion_rules as unknown as Persona['emotionRules']) ?? {},
+    isPreset: false,
+  };
+}
+
+function toRow(persona: PersonaInput) {
+  return {
+    name: persona.name,
+    description: persona.description,
+    system_prompt: persona.systemPrompt,
+    tone: persona.tone,
+    language: persona.language,
+    emotion_rules: persona.emotionRules as unknown as Json,
+  };
+}
+
+/**
+ * Stores the user's own personas in Supabase, scoped to them through RLS.
+ */
+export class PersonaRepository {
+  async listPersonas(): Promise<Persona[]> {
+    const { data, error } = await supabase.from('personas').select('*').order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[PersonaRepository] Failed to list personas:', error);
+      throw new Error('Failed to load personas');
+    }
+
+    return data.map(toPersona);
+  }
+
+  async createPersona(persona: PersonaInput): Promise<Persona> {
+    const { data, error } = await supabase.from('personas').insert(toRow(persona)).select().single();
+
+    if (error) {
+      console.error('[PersonaRepository] Failed to create persona:', error);
+      throw new Error('Failed to save persona');
+    }
+
+    return toPersona(data);
+  }
+
+  async updatePersona(id: string, persona: PersonaInput): Promise<Persona> {
+    const { data, error } = await supabase
+      .from('personas')
+      .update({ ...toRow(persona), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[PersonaRepository] Failed to update persona:', error);
+      throw new Error('Failed to save persona');
+    }
+
+    return toPersona(data);
+  }
+
+  async deletePersona(id: string): Promise<void> {
+    const { error } = await supabase.from('personas').delete().eq('id', id);
+
+    if (error) {
+      console.error('[PersonaRepository] Failed to delete persona:', error);
+      throw new Error('Failed to delete persona');
+    }
+  }
+}
+
+// Singleton instance for global use
+let repositoryInstance: PersonaRepository | null = null;
+
+export function getPersonaRepository(): PersonaRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new PersonaRepository();
+  }
+  return repositoryInstance;
+}
@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { EmotionBaseline } from '@/lib/emotion/baseline';
+import { resolveSelection, type ModelSelection } from '@/lib/chat/providers';
+
+/**
+ * Per-user settings stored on the `profiles` row (one per auth user, keyed by its id).
+ */
+export class ProfileRepository {
+  async loadBaseline(userId: string): Promise<EmotionBaseline | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('emotion_baseline')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ProfileRepository] Failed to load baseline:', error);
+      throw new Error('Failed to load calibration');
+    }
+
+    return (data?.emotion_baseline as unknown as EmotionBaseline | null) ?? null;
+  }
+
+  // Pass null to clear the baseline
+  async saveBaseline(userId: string, baseline: EmotionBaseline | null): Promise<void> {
+    const { error } = await supabase.from('profiles').upsert({
+      id: userId,
+      emotion_baseline: baseline as unknown as Json,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error('[ProfileRepository] Failed to save baseline:', error);
+      throw new Error('Failed to save calibration');
+    }
+  }
+
+  // Null when the user never picked a model
+  async loadModelSelection(userId: string): Promise<ModelSelection | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('ai_provider, ai_model')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ProfileRepository] Failed to load model selection:', error);
+      throw new Error('Failed to load model selection');
+    }
+
+    return data?.ai_provider ? resolveSelection(data.ai_provider, data.ai_model) : null;
+  }
+
+  async saveModelSelection(userId: string, selection: ModelSelection): Promise<void> {
+    const { error } = await supabase.from('profiles').upsert({
+      id: userId,
+      ai_provider: selection.provider,
+      ai_model: selection.model,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error('[ProfileRepository] Failed to save model selection:', error);
+      throw new Error('Failed to save model selection');
+    }
+  }
+}
+
+// Singleton instance for global use
+let repositoryInstance: ProfileRepository | null = null;
+
+export function getProfileRepository(): ProfileRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new ProfileRepository();
+  }
+  return repositoryInstance;
+}
@@ -0,0 +1,149 @@
+import type { Message } from '@/hooks/useMultimodalAI';
+import type { EmotionResult } from '@/services/FaceEmotionService';
+import type { TranscriptionResult, VoiceEmotionResult } from '@/services/VoiceAnalysisService';
+import type { RecordedEvent, SessionRecording } from '@/lib/session/recording';
+
+// Re-stamp a recorded message so it lines up with readings replayed "now"
+function shiftMessage(message: Message, delta: number): Message {
+  const context = message.emotionContext;
+  if (!context) return { ...message, timestamp: message.timestamp + delta };
+
+  return {
+    ...message,
+    timestamp: message.timestamp + delta,
+    emotionContext: {
+      facial: context.facial ? { ...context.facial, timestamp: context.facial.timestamp + delta } : null,
+      voice: context.voice ? { ...context.voice, timestamp: context.voice.timestamp + delta } : null,
+      summary: context.summary && {
+        ...context.summary,
+        from: context.summary.from + delta,
+        to: context.summary.to + delta,
+      },
+    },
+  };
+}
+
+/**
+ * Plays a SessionRecording back on its original timeline, emitting the same
+ * callbacks as FaceEmotionService and VoiceAnalysisService so the hook can be
+ * driven without a camera or microphone.
+ */
+export class SessionReplayService {
+  private recording: SessionRecording;
+  private cursor = 0;
+  private playbackStart = 0;
+  private timer: number | null = null;
+  private isPlaying = false;
+
+  private onEmotionCallback: ((result: EmotionResult) => void) | null = null;
+  private onVoiceEmotionCallback: ((result: VoiceEmotionResult) => void) | null = null;
+  private onTranscriptionCallback: ((result: TranscriptionResult) => void) | null = null;
+  private onMessageCallback: ((message: Message) => void) | null = null;
+  private onEndCallback: (() => void) | null = null;
+
+  constructor(recording: SessionRecording) {
+    this.recording = recording;
+  }
+
+  onEmotion(callback: (result: EmotionResult) => void): void {
+    this.onEmotionCallback = callback;
+  }
+
+  onVoiceEmotion(callback: (result: VoiceEmotionResult) => void): void {
+    this.onVoiceEmotionCallback = callback;
+  }
+
+  onTranscription(callback: (result: TranscriptionResult) => void): void {
+    this.onTranscriptionCallback = callback;
+  }
+
+  onMessage(callback: (message: Message) => void): void {
+    this.onMessageCallback = callback;
+  }
+
+  onEnd(callback: () => void): void {
+    this.onEndCallback = callback;
+  }
+
+  play(): void {
+    if (this.isPlaying) return;
+
+    this.isPlaying = true;
+    this.cursor = 0;
+    this.playbackStart = Date.now();
+    this.scheduleNext();
+    console.log('[SessionReplay] Playing', this.recording.events.length, 'events');
+  }
+
+  stop(): void {
+    this.isPlaying = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    console.log('[SessionReplay] Stopped');
+  }
+
+  getStatus(): { playing: boolean; position: number; duration: number } {
+    return {
+      playing: this.isPlaying,
+      position: this.isPlaying ? Date.now() - this.playbackStart : 0,
+      duration: this.recording.duration,
+    };
+  }
+
+  private scheduleNext(): void {
+    if (!this.isPlaying) return;
+
+    const next = this.recording.events[this.cursor];
+    if (!next) {
+      this.isPlaying = false;
+      this.timer = null;
+      console.log('[SessionReplay] Finished');
+      this.onEndCallback?.();
+      return;
+    }
+
+    const wait = Math.max(0, this.playbackStart + next.offset - Date.now());
+    this.timer = window.setTimeout(() => {
+      // Emit every event that is due, so a slow tab catches up instead of drifting
+      const elapsed = Date.now() - this.playbackStart;
+      while (this.isPlaying && this.cursor < this.recording.events.length) {
+        const event = this.recording.events[this.cursor];
+        if (event.offset > elapsed) break;
+        this.cursor++;
+        this.emit(event);
+      }
+      this.scheduleNext();
+    }, wait);
+  }
+
+  private emit(event: RecordedEvent): void {
+    const timestamp = this.playbackStart + event.offset;
+    const delta = this.playbackStart - this.recording.startedAt;
+
+    switch (event.type) {
+      case 'facial':
+        this.onEmotionCallback?.({ ...event.data, timestamp });
+        break;
+      case 'voice':
+        this.onVoiceEmotionCallback?.({ ...event.data, timestamp });
+        break;
+      case 'transcription':
+        this.onTranscriptionCallback?.({ ...event.data, timestamp });
+        break;
+      case 'message':
+        this.onMessageCallback?.(shiftMessage(event.data, delta));
+        break;
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+    this.onEmotionCallback = null;
+    this.onVoiceEmotionCallback = null;
+    this.onTranscriptionCallback = null;
+    this.onMessageCallback = null;
+    this.onEndCallback = null;
+  }
+}
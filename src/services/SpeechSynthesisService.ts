@@ -0,0 +1,179 @@
+import type { Emotion } from '@/services/FaceEmotionService';
+
+export interface SpeechProsody {
+  rate: number;
+  pitch: number;
+}
+
+// How the assistant's voice adapts to the user's current emotion.
+// Distressed users get a slower, lower, calmer delivery; happy users a slightly livelier one.
+export const EMOTION_PROSODY: Record<Emotion, SpeechProsody> = {
+  happy: { rate: 1.05, pitch: 1.05 },
+  sad: { rate: 0.88, pitch: 0.95 },
+  angry: { rate: 0.92, pitch: 0.95 },
+  fearful: { rate: 0.88, pitch: 0.97 },
+  neutral: { rate: 1, pitch: 1 },
+  surprised: { rate: 1, pitch: 1.02 },
+  disgusted: { rate: 0.95, pitch: 0.98 },
+};
+
+export interface SpeechSynthesisConfig {
+  language?: string;
+  volume?: number;
+}
+
+export class SpeechSynthesisService {
+  private synth: SpeechSynthesis | null;
+  private voice: SpeechSynthesisVoice | null = null;
+  private config: Required<SpeechSynthesisConfig>;
+  // Utterances must stay referenced until they end, or some browsers drop their events
+  private queued = new Set<SpeechSynthesisUtterance>();
+  private paused = false;
+  private onSpeakingChangeCallback: ((speaking: boolean) => void) | null = null;
+
+  constructor(config: SpeechSynthesisConfig = {}) {
+    this.synth = typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+    this.config = {
+      language: config.language || navigator.language || 'en-US',
+      volume: config.volume ?? 1,
+    };
+
+    if (this.synth) {
+      // Voices load asynchronously in Chrome
+      this.synth.addEventListener('voiceschanged', this.handleVoicesChanged);
+      this.selectVoice();
+    } else {
+      console.warn('[SpeechSynthesis] Speech synthesis not supported');
+    }
+  }
+
+  private handleVoicesChanged = (): void => {
+    this.selectVoice();
+  };
+
+  private selectVoice(): void {
+    if (!this.synth) return;
+
+    const voices = this.synth.getVoices();
+    const language = this.config.language.toLowerCase();
+    const base = language.split('-')[0];
+
+    const exact = voices.filter((v) => v.lang.toLowerCase().replace('_', '-') === language);
+    const sameBase = voices.filter((v) => v.lang.toLowerCase().startsWith(base));
+    const candidates = exact.length > 0 ? exact : sameBase;
+
+    // Prefer on-device voices: they start faster and work offline
+    this.voice =
+      candidates.find((v) => v.localService && v.default) ||
+      candidates.find((v) => v.localService) ||
+      candidates[0] ||
+      null;
+
+    if (this.voice) {
+      console.log('[SpeechSynthesis] Using voice:', this.voice.name, this.voice.lang);
+    }
+  }
+
+  isSupported(): boolean {
+    return this.synth !== null;
+  }
+
+  // Still true while paused: the queue is kept
+  isSpeaking(): boolean {
+    return this.queued.size > 0;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  setLanguage(lang: string): void {
+    this.config.language = lang;
+    this.selectVoice();
+  }
+
+  onSpeakingChange(callback: (speaking: boolean) => void): void {
+    this.onSpeakingChangeCallback = callback;
+  }
+
+  /**
+   * Queues text to be spoken after anything already queued.
+   */
+  speak(text: string, emotion?: Emotion | null): void {
+    if (!this.synth || !text.trim()) return;
+
+    const prosody = EMOTION_PROSODY[emotion ?? 'neutral'] ?? EMOTION_PROSODY.neutral;
+    const utterance = new SpeechSynthesisUtterance(text.trim());
+    utterance.lang = this.voice?.lang || this.config.language;
+    utterance.voice = this.voice;
+    utterance.rate = prosody.rate;
+    utterance.pitch = prosody.pitch;
+    utterance.volume = this.config.volume;
+
+    const finish = () => {
+      this.queued.delete(utterance);
+      if (this.queued.size === 0) {
+        this.onSpeakingChangeCallback?.(false);
+      }
+    };
+    utterance.onend = finish;
+    utterance.onerror = (event) => {
+      if (event.error !== 'canceled' && event.error !== 'interrupted') {
+        console.error('[SpeechSynthesis] Error:', event.error);
+      }
+      finish();
+    };
+
+    if (this.queued.size === 0) {
+      this.onSpeakingChangeCallback?.(true);
+    }
+    this.queued.add(utterance);
+    this.synth.speak(utterance);
+  }
+
+  // Holds the current utterance and the queue, e.g. while checking whether the user is interrupting
+  pause(): void {
+    if (!this.synth || this.paused || this.queued.size === 0) return;
+    this.paused = true;
+    this.synth.pause();
+  }
+
+  resume(): void {
+    if (!this.synth || !this.paused) return;
+    this.paused = false;
+    this.synth.resume();
+  }
+
+  cancel(): void {
+    if (!this.synth) return;
+
+    const wasSpeaking = this.queued.size > 0;
+    this.queued.clear();
+    this.synth.cancel();
+    // Chrome stays paused after cancel(), which would hold back the next reply
+    if (this.paused) {
+      this.paused = false;
+      this.synth.resume();
+    }
+    if (wasSpeaking) {
+      this.onSpeakingChangeCallback?.(false);
+    }
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.synth?.removeEventListener('voiceschanged', this.handleVoicesChanged);
+    this.onSpeakingChangeCallback = null;
+    console.log('[SpeechSynthesis] Disposed');
+  }
+}
+
+// Singleton
+let serviceInstance: SpeechSynthesisService | null = null;
+
+export function getSpeechSynthesisService(config?: SpeechSynthesisConfig): SpeechSynthesisService {
+  if (!serviceInstance) {
+    serviceInstance = new SpeechSynthesisService(config);
+  }
+  return serviceInstance;
+}
@@ -1,17 +1,38 @@
+import type { VadConfig, VadSegment } from '@/lib/audio/vad';
+import type { PitchTrackerConfig } from '@/lib/audio/pitch';
+import { SpeechRateEstimator, type SpeechRate, type SpeechRateConfig } from '@/lib/audio/speechRate';
+import {
+  VOICE_WORKLET_NAME,
+  type VoiceFeatureFrame,
+  type VoiceFeatures,
+  type VoiceWorkletCommand,
+  type VoiceWorkletMessage,
+} from '@/lib/audio/features';
+import voiceWorkletUrl from '@/lib/audio/voiceAnalysis.worklet.ts?worker&url';
+import { normalizeVoiceMetrics, type VoiceBaseline } from '@/lib/emotion/baseline';
+
 export type VoiceEmotion = 'happy' | 'sad' | 'angry' | 'fearful' | 'neutral';
 
 export interface VoiceMetrics {
+  // Hz; 0 on unvoiced frames
   pitch: number;
+  // Probability that the frame is voiced, from the pitch tracker
+  voicing: number;
   pitchVariation: number;
   volume: number;
   volumeVariation: number;
+  // Syllables per second over the rolling speech-rate window, from the energy envelope
   speechRate: number;
+  // Transcript words over speech time in the same window; 0 until something was transcribed
+  wordsPerMinute: number;
   energy: number;
 }
 
 export interface VoiceEmotionResult {
   emotion: VoiceEmotion;
   confidence: number;
+  // Normalised score per voice emotion (sums to 1)
+  all: Record<VoiceEmotion, number>;
   metrics: VoiceMetrics;
   timestamp: number;
 }
@@ -25,24 +46,43 @@ export interface TranscriptionResult {
 
 export interface VoiceAnalysisConfig {
   sampleRate?: number;
+  // Analysis window in samples, as with AnalyserNode.fftSize
   fftSize?: number;
   language?: string;
+  vad?: VadConfig;
+  speechRate?: SpeechRateConfig;
+  pitch?: PitchTrackerConfig;
 }
 
+// Quiet time after the assistant stops speaking before recognition restarts. Streamed replies are
+// spoken sentence by sentence, and the recognizer shouldn't be cycled in the gaps between them
+const TRANSCRIPTION_RESUME_DELAY_MS = 400;
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
 export class VoiceAnalysisService {
   private audioContext: AudioContext | null = null;
-  private analyser: AnalyserNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
   private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
   private recognition: SpeechRecognition | null = null;
 
   private isListening = false;
+  // Whether recognition should run, vs. whether the recognizer is running (from start() until its end event).
+  // start() throws while it's still running, so restarts wait for the end event
   private isTranscribing = false;
-  private analysisInterval: number | null = null;
+  private isRecognizerActive = false;
+  private isTranscriptionSuspended = false;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  private isSpeaking = false;
 
   private config: Required<VoiceAnalysisConfig>;
+  private speechRate: SpeechRateEstimator;
+  private baseline: VoiceBaseline | null = null;
 
   private onVoiceEmotionCallback: ((result: VoiceEmotionResult) => void) | null = null;
   private onTranscriptionCallback: ((result: TranscriptionResult) => void) | null = null;
+  private onSpeechStartCallback: ((timestamp: number) => void) | null = null;
+  private onSpeechEndCallback: ((segment: VadSegment, rate: SpeechRate | null) => void) | null = null;
 
   private pitchHistory: number[] = [];
   private volumeHistory: number[] = [];
@@ -52,17 +92,34 @@ export class VoiceAnalysisService {
       sampleRate: config.sampleRate || 44100,
       fftSize: config.fftSize || 2048,
       language: config.language || navigator.language || 'en-US',
+      vad: config.vad || {},
+      speechRate: config.speechRate || {},
+      pitch: config.pitch || {},
     };
+    this.speechRate = new SpeechRateEstimator(this.config.speechRate);
   }
 
   async initialize(stream: MediaStream): Promise<void> {
-    // Setup Web Audio API for voice emotion analysis
+    // Setup Web Audio API for voice emotion analysis.
+    // Framing, VAD, pitch and spectrum run in an AudioWorklet; this thread only turns
+    // the feature frames it posts back into emotions and utterance events.
     this.audioContext = new AudioContext({ sampleRate: this.config.sampleRate });
-    this.analyser = this.audioContext.createAnalyser();
-    this.analyser.fftSize = this.config.fftSize;
+    if (!this.audioContext.audioWorklet) {
+      throw new Error('AudioWorklet is not supported in this browser');
+    }
+    await this.audioContext.audioWorklet.addModule(voiceWorkletUrl);
+
+    this.workletNode = new AudioWorkletNode(this.audioContext, VOICE_WORKLET_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: { windowSize: this.config.fftSize, vad: this.config.vad, pitch: this.config.pitch },
+    });
+    this.workletNode.port.onmessage = (event: MessageEvent<VoiceWorkletMessage>) => {
+      if (event.data.type === 'frames') this.handleFrames(event.data.frames);
+    };
 
     this.mediaStreamSource = this.audioContext.createMediaStreamSource(stream);
-    this.mediaStreamSource.connect(this.analyser);
+    this.mediaStreamSource.connect(this.workletNode);
 
     // Setup Web Speech API for transcription
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -85,6 +142,7 @@ export class VoiceAnalysisService {
     if (!this.recognition) return;
 
     this.recognition.onstart = () => {
+      this.isRecognizerActive = true;
       console.log('[VoiceAnalysis] 🎤 Speech recognition STARTED - speak now!');
     };
 
@@ -108,6 +166,9 @@ export class VoiceAnalysisService {
 
       console.log('[VoiceAnalysis] 📝 Transcript:', transcript, 'Final:', isFinal);
 
+      // Interim results count too: with VAD endpointing the final result may never arrive
+      this.speechRate.setTranscriptWords(countWords(transcript));
+
       this.onTranscriptionCallback?.({
         text: transcript,
         isFinal,
@@ -121,17 +182,14 @@ export class VoiceAnalysisService {
     };
 
     this.recognition.onend = () => {
+      this.isRecognizerActive = false;
       console.log('[VoiceAnalysis] 🛑 Speech recognition ended, isTranscribing:', this.isTranscribing);
       // Auto-restart if we should still be transcribing
       if (this.isTranscribing && this.recognition) {
         console.log('[VoiceAnalysis] 🔄 Auto-restarting recognition...');
         setTimeout(() => {
-          if (this.isTranscribing) {
-            try {
-              this.recognition?.start();
-            } catch (e) {
-              console.warn('[VoiceAnalysis] Could not restart:', e);
-            }
+          if (this.isTranscribing && !this.isRecognizerActive) {
+            this.startRecognizer();
           }
         }, 100);
       }
@@ -153,12 +211,49 @@ export class VoiceAnalysisService {
     this.onTranscriptionCallback = callback;
   }
 
+  onSpeechStart(callback: (timestamp: number) => void): void {
+    this.onSpeechStartCallback = callback;
+  }
+
+  // Fires once the VAD has seen endOfUtteranceMs of silence after speech, with that utterance's rate
+  onSpeechEnd(callback: (segment: VadSegment, rate: SpeechRate | null) => void): void {
+    this.onSpeechEndCallback = callback;
+  }
+
+  // True while the user is voicing, including short dips inside words
+  isSpeechActive(): boolean {
+    return this.isSpeaking;
+  }
+
+  // Classify against the user's calibrated neutral voice; emitted metrics stay raw
+  setBaseline(baseline: VoiceBaseline | null): void {
+    this.baseline = baseline;
+  }
+
+  setEndOfUtterance(ms: number): void {
+    this.config.vad = { ...this.config.vad, endOfUtteranceMs: ms };
+    this.postToWorklet({ type: 'endOfUtterance', ms });
+  }
+
+  // Rolling speech rate over the last windowMs (defaults to the configured window)
+  getSpeechRate(windowMs?: number): SpeechRate {
+    return this.speechRate.rate(windowMs);
+  }
+
+  // Rate of the utterance in progress, or the last finished one
+  getUtteranceSpeechRate(): SpeechRate | null {
+    return this.speechRate.utteranceRate();
+  }
+
   startListening(): void {
     if (this.isListening) return;
     this.isListening = true;
     this.pitchHistory = [];
     this.volumeHistory = [];
-    this.runAnalysisLoop();
+    this.isSpeaking = false;
+    this.speechRate.reset();
+    this.postToWorklet({ type: 'reset' });
+    this.postToWorklet({ type: 'listen', enabled: true });
     console.log('[VoiceAnalysis] Started emotion analysis');
   }
 
@@ -176,10 +271,24 @@ export class VoiceAnalysisService {
     this.isTranscribing = true;
     console.log('[VoiceAnalysis] 🚀 Starting transcription, language:', this.config.language);
 
+    // Still winding down from a stop(): the end handler restarts it
+    if (this.isRecognizerActive) return;
+    this.startRecognizer();
+  }
+
+  private startRecognizer(): void {
+    if (!this.recognition) return;
+
     try {
       this.recognition.start();
+      this.isRecognizerActive = true;
       console.log('[VoiceAnalysis] ✅ recognition.start() called successfully');
     } catch (e) {
+      if (e instanceof DOMException && e.name === 'InvalidStateError') {
+        // Already running; its end event will come through the usual path
+        this.isRecognizerActive = true;
+        return;
+      }
       console.error('[VoiceAnalysis] ❌ Could not start recognition:', e);
       this.isTranscribing = false;
     }
@@ -187,15 +296,15 @@ export class VoiceAnalysisService {
 
   stopListening(): void {
     this.isListening = false;
-    if (this.analysisInterval) {
-      clearTimeout(this.analysisInterval);
-      this.analysisInterval = null;
-    }
+    this.isSpeaking = false;
+    this.postToWorklet({ type: 'listen', enabled: false });
     console.log('[VoiceAnalysis] Stopped emotion analysis');
   }
 
   stopTranscription(): void {
     this.isTranscribing = false;
+    this.isTranscriptionSuspended = false;
+    this.clearResumeTimer();
     if (this.recognition) {
       try {
         this.recognition.stop();
@@ -206,93 +315,114 @@ export class VoiceAnalysisService {
     console.log('[VoiceAnalysis] Stopped transcription');
   }
 
-  private runAnalysisLoop(): void {
-    if (!this.isListening || !this.analyser) return;
-
-    const metrics = this.analyzeAudio();
-
-    if (metrics.energy > 0.1) {
-      this.pitchHistory.push(metrics.pitch);
-      this.volumeHistory.push(metrics.volume);
+  // Drop whatever the recognizer is still holding, e.g. after the VAD already ended the turn.
+  // The onend handler restarts recognition for the next utterance.
+  abortUtterance(): void {
+    if (!this.isTranscribing || !this.recognition) return;
+    try {
+      this.recognition.abort();
+    } catch (e) {
+      console.warn('[VoiceAnalysis] Could not abort recognition:', e);
+    }
+  }
 
-      if (this.pitchHistory.length > 20) this.pitchHistory.shift();
-      if (this.volumeHistory.length > 20) this.volumeHistory.shift();
+  // Temporarily stop recognition (e.g. while the assistant speaks) without losing the listening state
+  suspendTranscription(): void {
+    if (this.resumeTimer) {
+      // Next sentence started within the grace period: recognition is still stopped, keep it that way
+      this.clearResumeTimer();
+      return;
+    }
+    if (!this.isTranscribing) return;
+    this.stopTranscription();
+    this.isTranscriptionSuspended = true;
+  }
 
-      metrics.pitchVariation = this.calculateStdDev(this.pitchHistory);
-      metrics.volumeVariation = this.calculateStdDev(this.volumeHistory);
+  resumeTranscription(delayMs = TRANSCRIPTION_RESUME_DELAY_MS): void {
+    if (!this.isTranscriptionSuspended) return;
+    this.clearResumeTimer();
 
-      const emotion = this.detectEmotion(metrics);
+    const resume = () => {
+      this.resumeTimer = null;
+      this.isTranscriptionSuspended = false;
+      this.startTranscription();
+    };
+    if (delayMs > 0) {
+      this.resumeTimer = setTimeout(resume, delayMs);
+    } else {
+      resume();
+    }
+  }
 
-      this.onVoiceEmotionCallback?.({
-        ...emotion,
-        metrics,
-        timestamp: Date.now(),
-      });
+  private clearResumeTimer(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
     }
+  }
 
-    this.analysisInterval = window.setTimeout(() => this.runAnalysisLoop(), 100);
+  private postToWorklet(command: VoiceWorkletCommand): void {
+    this.workletNode?.port.postMessage(command);
   }
 
-  private analyzeAudio(): VoiceMetrics {
-    if (!this.analyser) {
-      return { pitch: 0, pitchVariation: 0, volume: 0, volumeVariation: 0, speechRate: 0, energy: 0 };
-    }
+  private handleFrames(frames: VoiceFeatureFrame[]): void {
+    if (!this.isListening || frames.length === 0) return;
 
-    const bufferLength = this.analyser.frequencyBinCount;
-    const frequencyData = new Uint8Array(bufferLength);
-    const timeData = new Uint8Array(bufferLength);
+    // Frame times are on the audio clock; the newest frame was just produced
+    const offset = Date.now() - frames[frames.length - 1].time;
 
-    this.analyser.getByteFrequencyData(frequencyData);
-    this.analyser.getByteTimeDomainData(timeData);
+    for (const frame of frames) {
+      const timestamp = frame.time + offset;
+      this.isSpeaking = frame.isSpeech;
 
-    const pitch = this.detectPitch(timeData);
-    const volume = this.calculateRMS(timeData);
-    const energy = this.calculateEnergy(frequencyData);
+      if (frame.speechStart !== undefined) {
+        this.speechRate.startUtterance(frame.speechStart + offset);
+        this.onSpeechStartCallback?.(frame.speechStart + offset);
+      }
+      this.speechRate.process(frame.level, timestamp, frame.isSpeech);
+      if (frame.speechEnd) {
+        const segment = { ...frame.speechEnd, start: frame.speechEnd.start + offset, end: frame.speechEnd.end + offset };
+        const rate = this.speechRate.endUtterance(segment.end);
+        console.log('[VoiceAnalysis] Utterance ended after', segment.speechMs, 'ms of speech', rate);
+        this.onSpeechEndCallback?.(segment, rate);
+      }
 
-    return { pitch, pitchVariation: 0, volume, volumeVariation: 0, speechRate: 0, energy };
+      // The worklet only analyzes frames the VAD marked as speech
+      if (frame.features) {
+        this.emitVoiceEmotion(frame.features, timestamp);
+      }
+    }
   }
 
-  private detectPitch(timeData: Uint8Array): number {
-    const sampleRate = this.audioContext?.sampleRate || 44100;
-    const floatData = new Float32Array(timeData.length);
-    for (let i = 0; i < timeData.length; i++) {
-      floatData[i] = (timeData[i] - 128) / 128;
-    }
+  private emitVoiceEmotion(features: VoiceFeatures, timestamp: number): void {
+    const metrics: VoiceMetrics = {
+      ...features,
+      pitchVariation: 0,
+      volumeVariation: 0,
+      speechRate: 0,
+      wordsPerMinute: 0,
+    };
 
-    let maxCorrelation = 0;
-    let bestLag = 0;
-    const minLag = Math.floor(sampleRate / 500);
-    const maxLag = Math.floor(sampleRate / 50);
+    // Unvoiced frames (fricatives, breath) have no pitch to add to the contour
+    if (metrics.pitch > 0) this.pitchHistory.push(metrics.pitch);
+    this.volumeHistory.push(metrics.volume);
 
-    for (let lag = minLag; lag < maxLag && lag < floatData.length / 2; lag++) {
-      let correlation = 0;
-      for (let i = 0; i < floatData.length - lag; i++) {
-        correlation += floatData[i] * floatData[i + lag];
-      }
-      if (correlation > maxCorrelation) {
-        maxCorrelation = correlation;
-        bestLag = lag;
-      }
-    }
+    if (this.pitchHistory.length > 20) this.pitchHistory.shift();
+    if (this.volumeHistory.length > 20) this.volumeHistory.shift();
 
-    return bestLag === 0 ? 0 : sampleRate / bestLag;
-  }
+    metrics.pitchVariation = this.calculateStdDev(this.pitchHistory);
+    metrics.volumeVariation = this.calculateStdDev(this.volumeHistory);
+    const rate = this.speechRate.rate(undefined, timestamp);
+    metrics.speechRate = rate.syllablesPerSecond;
+    metrics.wordsPerMinute = rate.wordsPerMinute ?? 0;
 
-  private calculateRMS(timeData: Uint8Array): number {
-    let sum = 0;
-    for (let i = 0; i < timeData.length; i++) {
-      const value = (timeData[i] - 128) / 128;
-      sum += value * value;
-    }
-    return Math.sqrt(sum / timeData.length);
-  }
+    const emotion = this.detectEmotion(this.baseline ? normalizeVoiceMetrics(metrics, this.baseline) : metrics);
 
-  private calculateEnergy(frequencyData: Uint8Array): number {
-    let sum = 0;
-    for (let i = 0; i < frequencyData.length; i++) {
-      sum += frequencyData[i];
-    }
-    return sum / (frequencyData.length * 255);
+    this.onVoiceEmotionCallback?.({
+      ...emotion,
+      metrics,
+      timestamp,
+    });
   }
 
   private calculateStdDev(values: number[]): number {
@@ -302,26 +432,39 @@ export class VoiceAnalysisService {
     return Math.sqrt(squareDiffs.reduce((a, b) => a + b, 0) / values.length);
   }
 
-  private detectEmotion(metrics: VoiceMetrics): { emotion: VoiceEmotion; confidence: number } {
+  private detectEmotion(
+    metrics: VoiceMetrics
+  ): { emotion: VoiceEmotion; confidence: number; all: Record<VoiceEmotion, number> } {
     const scores: Record<VoiceEmotion, number> = {
       happy: 0, sad: 0, angry: 0, fearful: 0, neutral: 0.3,
     };
 
-    if (metrics.pitch >= 200 && metrics.pitch <= 400) scores.happy += 0.3;
-    if (metrics.pitch >= 150 && metrics.pitch <= 350 && metrics.volume > 0.7) scores.angry += 0.3;
-    if (metrics.pitch >= 100 && metrics.pitch <= 200) scores.sad += 0.3;
-    if (metrics.pitch >= 180 && metrics.pitch <= 350) scores.fearful += 0.2;
+    // Pitch rules only apply to voiced frames; an unvoiced frame's "pitch" is noise
+    const voiced = metrics.pitch > 0;
+
+    if (voiced) {
+      if (metrics.pitch >= 200 && metrics.pitch <= 400) scores.happy += 0.3;
+      if (metrics.pitch >= 150 && metrics.pitch <= 350 && metrics.volume > 0.7) scores.angry += 0.3;
+      if (metrics.pitch >= 100 && metrics.pitch <= 200) scores.sad += 0.3;
+      if (metrics.pitch >= 180 && metrics.pitch <= 350) scores.fearful += 0.2;
+    }
 
     if (metrics.volume > 0.7) { scores.angry += 0.2; scores.happy += 0.1; }
     else if (metrics.volume < 0.3) { scores.sad += 0.3; scores.fearful += 0.1; }
 
-    if (metrics.pitchVariation > 40) { scores.angry += 0.2; scores.fearful += 0.2; }
-    else if (metrics.pitchVariation > 25) scores.happy += 0.2;
-    else if (metrics.pitchVariation < 15) { scores.sad += 0.2; scores.neutral += 0.1; }
+    if (voiced) {
+      if (metrics.pitchVariation > 40) { scores.angry += 0.2; scores.fearful += 0.2; }
+      else if (metrics.pitchVariation > 25) scores.happy += 0.2;
+      else if (metrics.pitchVariation < 15) { scores.sad += 0.2; scores.neutral += 0.1; }
+    }
 
     if (metrics.energy > 0.6) { scores.angry += 0.2; scores.happy += 0.1; }
     else if (metrics.energy < 0.3) scores.sad += 0.2;
 
+    // Conversational speech runs around 4-5 syllables per second; 0 means not enough speech yet
+    if (metrics.speechRate > 5.5) { scores.angry += 0.1; scores.fearful += 0.15; scores.happy += 0.1; }
+    else if (metrics.speechRate > 0 && metrics.speechRate < 3) scores.sad += 0.2;
+
     let maxScore = 0;
     let dominantEmotion: VoiceEmotion = 'neutral';
     for (const [emotion, score] of Object.entries(scores)) {
@@ -331,7 +474,13 @@ export class VoiceAnalysisService {
       }
     }
 
-    return { emotion: dominantEmotion, confidence: Math.min(1, maxScore) };
+    const total = Object.values(scores).reduce((a, b) => a + b, 0);
+    const all = { ...scores };
+    for (const emotion of Object.keys(all) as VoiceEmotion[]) {
+      all[emotion] = all[emotion] / total;
+    }
+
+    return { emotion: dominantEmotion, confidence: Math.min(1, maxScore), all };
   }
 
   dispose(): void {
@@ -343,12 +492,17 @@ export class VoiceAnalysisService {
       this.mediaStreamSource = null;
     }
 
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
     }
 
-    this.analyser = null;
     this.recognition = null;
     console.log('[VoiceAnalysis] Disposed');
   }
@@ -0,0 +1,45 @@
+-- Opt-in conversation history for the /demo page
+create table public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.conversation_messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  emotion_context jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index conversations_user_id_updated_at_idx on public.conversations (user_id, updated_at desc);
+create index conversation_messages_conversation_id_created_at_idx on public.conversation_messages (conversation_id, created_at);
+
+alter table public.conversations enable row level security;
+alter table public.conversation_messages enable row level security;
+
+create policy "Users manage their own conversations"
+  on public.conversations
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage messages of their own conversations"
+  on public.conversation_messages
+  for all
+  using (
+    exists (
+      select 1 from public.conversations c
+      where c.id = conversation_id and c.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.conversations c
+      where c.id = conversation_id and c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,3 @@
+-- Assistant replies cut short by a barge-in or the stop button
+alter table public.conversation_messages
+  add column interrupted boolean not null default false;
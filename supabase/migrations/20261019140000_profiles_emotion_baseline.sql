@@ -0,0 +1,3 @@
+-- Neutral face and voice readings recorded by the /demo calibration step
+alter table public.profiles
+  add column emotion_baseline jsonb;
@@ -0,0 +1,4 @@
+-- Chat provider and model picked in the /demo header; null means the app default
+alter table public.profiles
+  add column ai_provider text,
+  add column ai_model text;
@@ -0,0 +1,27 @@
+-- User-created assistant personas for the /demo page; presets live in the client
+create table public.personas (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  description text not null default '',
+  system_prompt text not null,
+  tone text not null default 'warm',
+  language text,
+  emotion_rules jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index personas_user_id_idx on public.personas (user_id);
+
+alter table public.personas enable row level security;
+
+create policy "Users manage their own personas"
+  on public.personas
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Persona active when the conversation started: a preset id or a personas row id
+alter table public.conversations
+  add column persona_id text;
@@ -0,0 +1,3 @@
+-- Rolling summary of the turns that no longer fit in the context sent to chat-ai
+alter table public.conversations
+  add column context_summary jsonb;